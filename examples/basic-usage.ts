@@ -6,7 +6,7 @@
  * documentation patterns.
  */
 
-import { WhoopSDK, getRecommendedScopes, WhoopAuthError } from '../src';
+import { WhoopSDK, getRecommendedScopes, WhoopAuthError, loginWithLoopback } from '../src';
 
 // ===============================
 // 1. SETUP - Choose your method
@@ -228,6 +228,17 @@ async function oauthFlowExample() {
   }
 }
 
+// For CLIs and scripts: serve the redirect URI (e.g. http://localhost:8080/callback) locally
+// instead of copying the code out of the browser by hand
+async function loopbackLoginExample() {
+  try {
+    const tokens = await loginWithLoopback(whoopOAuth.auth!);
+    console.log('Signed in, token expires in', tokens.expires_in, 'seconds');
+  } catch (error) {
+    console.error('Loopback login error:', error);
+  }
+}
+
 // ===============================
 // 7. ERROR HANDLING
 // ===============================
@@ -298,6 +309,7 @@ async function runAllExamples() {
   
   // await getCyclesWithRecoveryExample();
   // await oauthFlowExample();
+  // await loopbackLoginExample();
   // await errorHandlingExample();
   // await checkUserStatusExample();
 }
@@ -313,6 +325,7 @@ export {
   getRecoveryTrendsExample,
   getCyclesWithRecoveryExample,
   oauthFlowExample,
+  loopbackLoginExample,
   errorHandlingExample,
   checkUserStatusExample,
 }; 
\ No newline at end of file
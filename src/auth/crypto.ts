@@ -0,0 +1,48 @@
+/**
+ * Web Crypto Helpers
+ * Shared by PKCE, signed OAuth state and token encryption
+ */
+
+import { WhoopConfigError } from '../errors';
+
+/**
+ * Resolve the Web Crypto implementation
+ * Global in browsers and Node.js 19+, older Node.js versions need it assigned from node:crypto
+ */
+export function getWebCrypto(): Crypto {
+  const webCrypto = (globalThis as any).crypto as Crypto | undefined;
+  if (!webCrypto?.subtle || typeof webCrypto.getRandomValues !== 'function') {
+    throw new WhoopConfigError(
+      'Web Crypto is not available. On Node.js before v19, set globalThis.crypto = require("node:crypto").webcrypto.'
+    );
+  }
+  return webCrypto;
+}
+
+/**
+ * Generate cryptographically secure random bytes
+ */
+export function randomBytes(length: number): Uint8Array {
+  return getWebCrypto().getRandomValues(new Uint8Array(length));
+}
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode base64url, throwing on characters outside the alphabet
+ */
+export function base64UrlDecode(value: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(value)) {
+    throw new Error('Invalid base64url value');
+  }
+
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
\ No newline at end of file
@@ -0,0 +1,133 @@
+/**
+ * Loopback Login
+ * Authorization code flow for CLIs and scripts through a temporary localhost server (Node.js only)
+ */
+
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import { WhoopAbortError, WhoopConfigError, WhoopTimeoutError } from '../errors';
+import type { LoopbackLoginOptions, OAuthTokens } from '../types';
+import { base64UrlEncode, randomBytes } from './crypto';
+import { validateAuthorizationCallback, type WhoopOAuthClient } from './oauth';
+
+const DEFAULT_LOGIN_TIMEOUT_MS = 5 * 60 * 1000;
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Sign a user in by serving the redirect URI on localhost
+ *
+ * Starts a server on the client's redirect URI, hands the authorization URL to openUrl,
+ * validates the callback and its state, exchanges the code and shuts the server down.
+ * A declined consent rejects with the WhoopOAuthError from the callback (e.g. access_denied).
+ * The redirect URI must be registered with WHOOP as e.g. http://localhost:8080/callback.
+ */
+export async function loginWithLoopback(
+  client: WhoopOAuthClient,
+  options: LoopbackLoginOptions = {}
+): Promise<OAuthTokens> {
+  const { redirectUri, pkce } = client.getConfig();
+  const redirect = parseLoopbackRedirectUri(redirectUri);
+  const timeoutMs = options.timeoutMs ?? DEFAULT_LOGIN_TIMEOUT_MS;
+
+  if (options.signal?.aborted) {
+    throw new WhoopAbortError('Login was cancelled', options.signal.reason);
+  }
+
+  const state = base64UrlEncode(randomBytes(16));
+  const authorizationOptions = options.scopes ? { state, scopes: options.scopes } : { state };
+  const { url, codeVerifier } = pkce
+    ? await client.createAuthorizationRequest(authorizationOptions)
+    : { url: client.getAuthorizationUrl(authorizationOptions), codeVerifier: undefined };
+
+  const http = await import('http');
+  let server: Server | undefined;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+
+  try {
+    const code = await new Promise<string>((resolve, reject) => {
+      server = http.createServer((request: IncomingMessage, response: ServerResponse) => {
+        const callbackUrl = new URL(request.url ?? '/', redirect.origin);
+        if (callbackUrl.pathname !== redirect.pathname) {
+          respond(response, 404, 'Not found');
+          return;
+        }
+
+        try {
+          const callback = validateAuthorizationCallback(callbackUrl.toString(), state);
+          respond(response, 200, 'Signed in to WHOOP. You can close this window.');
+          resolve(callback.code);
+        } catch (error) {
+          respond(response, 400, `WHOOP sign-in failed: ${error instanceof Error ? error.message : String(error)}`);
+          reject(error);
+        }
+      });
+
+      server.on('error', (error: NodeJS.ErrnoException) => {
+        reject(error.code === 'EADDRINUSE'
+          ? new WhoopConfigError(`Cannot listen on ${redirect.origin}, the port is already in use`)
+          : error);
+      });
+
+      timer = setTimeout(() => {
+        reject(new WhoopTimeoutError(`No authorization callback received within ${timeoutMs}ms`, undefined, timeoutMs));
+      }, timeoutMs);
+
+      onAbort = () => reject(new WhoopAbortError('Login was cancelled', options.signal?.reason));
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      server.listen(redirect.port, redirect.hostname, async () => {
+        try {
+          await (options.openUrl ?? printUrl)(url);
+        } catch (error) {
+          reject(error);
+        }
+      });
+    });
+
+    return await client.exchangeCodeForTokens(code, codeVerifier ? { codeVerifier } : {});
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) {
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+    if (server) {
+      server.close();
+      // Browsers keep idle connections open, which would hold the process
+      server.closeIdleConnections?.();
+    }
+  }
+}
+
+/**
+ * Check that the redirect URI can be served locally and split it into listen parameters
+ */
+function parseLoopbackRedirectUri(redirectUri: string): {
+  origin: string;
+  hostname: string;
+  port: number;
+  pathname: string;
+} {
+  const url = new URL(redirectUri);
+
+  if (url.protocol !== 'http:' || !LOOPBACK_HOSTS.includes(url.hostname)) {
+    throw new WhoopConfigError(
+      `Loopback login needs an http://localhost or http://127.0.0.1 redirect URI, got ${redirectUri}`
+    );
+  }
+
+  return {
+    origin: url.origin,
+    hostname: url.hostname.replace(/^\[|\]$/g, ''),
+    port: url.port ? Number(url.port) : 80,
+    pathname: url.pathname
+  };
+}
+
+function respond(response: ServerResponse, status: number, message: string): void {
+  response.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8', 'Connection': 'close' });
+  response.end(message);
+}
+
+function printUrl(url: string): void {
+  console.log(`Open this URL in your browser to sign in to WHOOP:\n\n  ${url}\n`);
+}
\ No newline at end of file
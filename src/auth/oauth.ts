@@ -3,32 +3,84 @@
  * Comprehensive OAuth2 flow implementation with token management
  */
 
-import { ErrorFactory, WhoopAuthError, WhoopOAuthError } from '../errors';
-import type { OAuthConfig, OAuthTokens, WhoopScope } from '../types';
-import { buildUrl, DEFAULT_BASE_URL } from '../utils';
-
-// Debug logging utility
-const log = (level: 'DEBUG' | 'INFO' | 'WARN' | 'ERROR', message: string, data?: any) => {
-  const timestamp = new Date().toISOString();
-  const prefix = `[${timestamp}] [WHOOP-SDK-OAUTH] [${level}]`;
-  
-  if (data) {
-    console.log(`${prefix} ${message}`, data);
-  } else {
-    console.log(`${prefix} ${message}`);
-  }
-};
+import { ErrorFactory, WhoopAPIError, WhoopAuthError, WhoopOAuthError } from '../errors';
+import { createPkcePair } from './pkce';
+import { getMissingScopes, getScopeFeatures, mergeScopes, parseScopes } from './scopes';
+import type {
+  IncrementalAuthorizationResult,
+  MetricsRecorder,
+  OAuthConfig,
+  OAuthTokens,
+  ProactiveRefreshConfig,
+  TokenStore,
+  WhoopFetch,
+  WhoopScope
+} from '../types';
+import {
+  buildUrl,
+  calculateRetryDelay,
+  createLogger,
+  DEFAULT_BASE_URL,
+  parseRateLimitHeaders,
+  resolveFetch,
+  SDKTracer,
+  SPAN_STATUS_ERROR,
+  SPAN_STATUS_OK,
+  type SDKLogger
+} from '../utils';
+
+/**
+ * OAuth configuration with defaults applied (logging and transport options are consumed separately)
+ */
+type ResolvedOAuthConfig = Required<
+  Omit<OAuthConfig, 'logger' | 'logLevel' | 'fetch' | 'tracing' | 'metrics' | 'tokenStore' | 'proactiveRefresh'>
+>;
+
+const DEFAULT_REFRESH_LEAD_TIME_MS = 60 * 1000;
+const DEFAULT_REFRESH_BACKOFF = { baseDelayMs: 5000, maxDelayMs: 5 * 60 * 1000 };
+// Longest delay setTimeout supports, later refreshes are rescheduled when the timer fires
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
 
 /**
  * OAuth2 authentication manager for WHOOP API
  */
 export class WhoopOAuthClient {
-  private readonly config: Required<OAuthConfig>;
+  private readonly config: ResolvedOAuthConfig;
+  private readonly logger: SDKLogger;
+  private readonly fetchImpl: WhoopFetch | undefined;
+  private readonly tracer: SDKTracer;
+  private readonly metrics: MetricsRecorder | undefined;
+  private readonly tokenStore: TokenStore | undefined;
   private tokens: OAuthTokens | undefined = undefined;
   private refreshPromise: Promise<OAuthTokens> | undefined = undefined;
+  private storeLoadPromise: Promise<void> = Promise.resolve();
+
+  // Proactive refresh scheduler
+  private proactiveRefresh: ProactiveRefreshConfig | undefined;
+  private refreshTimer: ReturnType<typeof setTimeout> | undefined = undefined;
+  private refreshFailures = 0;
+  private lastRefreshDelayMs: number | undefined = undefined;
+  private disposed = false;
 
   constructor(config: OAuthConfig) {
-    log('INFO', '🔐 Initializing WhoopOAuthClient', {
+    const {
+      logger,
+      logLevel,
+      fetch: fetchImpl,
+      tracing,
+      metrics,
+      tokenStore,
+      proactiveRefresh,
+      ...oauthConfig
+    } = config;
+    this.logger = createLogger({ logger, level: logLevel, component: 'oauth' });
+    this.fetchImpl = fetchImpl;
+    this.tracer = new SDKTracer(tracing);
+    this.metrics = metrics;
+    this.tokenStore = tokenStore;
+    this.proactiveRefresh = proactiveRefresh === true ? {} : proactiveRefresh || undefined;
+
+    this.logger.info('Initializing WhoopOAuthClient', {
       clientIdLength: config.clientId?.length,
       clientSecretLength: config.clientSecret?.length,
       redirectUri: config.redirectUri,
@@ -39,56 +91,116 @@ export class WhoopOAuthClient {
     this.config = {
       baseUrl: DEFAULT_BASE_URL.replace('/developer', ''),
       scopes: ['read:profile', 'offline'],
-      ...config,
+      pkce: false,
+      userId: 'default',
+      expirySkewMs: 5 * 60 * 1000,
+      ...oauthConfig,
+      clientSecret: oauthConfig.clientSecret ?? '',
     };
 
-    log('DEBUG', '⚙️ OAuth configuration processed', {
+    this.logger.debug('OAuth configuration processed', {
       finalBaseUrl: this.config.baseUrl,
       finalScopes: this.config.scopes,
       clientIdPrefix: this.config.clientId?.substring(0, 8) + '...'
     });
 
     this.validateConfig();
+
+    if (this.tokenStore) {
+      this.storeLoadPromise = this.loadStoredTokens(this.tokenStore);
+    }
+  }
+
+  /**
+   * Read this user's tokens from the token store, tokens set in the meantime take precedence
+   */
+  private async loadStoredTokens(store: TokenStore): Promise<void> {
+    try {
+      const stored = await store.get(this.config.userId);
+      if (stored && !this.tokens) {
+        this.tokens = stored;
+        this.scheduleRefresh();
+        this.logger.info('Loaded tokens from token store', {
+          hasRefreshToken: !!stored.refresh_token,
+          scope: stored.scope
+        });
+      }
+    } catch (error) {
+      this.logger.error('Failed to load tokens from token store', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Resolves once tokens from the token store have been loaded
+   */
+  public async ready(): Promise<void> {
+    await this.storeLoadPromise;
+  }
+
+  /**
+   * Write tokens to the token store
+   * Store failures are logged rather than thrown, the tokens stay usable in memory
+   */
+  private async persistTokens(tokens: OAuthTokens | undefined): Promise<void> {
+    if (!this.tokenStore) {
+      return;
+    }
+
+    try {
+      if (tokens) {
+        await this.tokenStore.set(this.config.userId, tokens);
+      } else {
+        await this.tokenStore.delete(this.config.userId);
+      }
+    } catch (error) {
+      this.logger.error('Failed to update token store', {
+        operation: tokens ? 'set' : 'delete',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
   }
 
   /**
    * Validate OAuth configuration
    */
   private validateConfig(): void {
-    log('DEBUG', '🔍 Validating OAuth configuration...');
+    this.logger.debug('Validating OAuth configuration...');
 
     if (!this.config.clientId) {
-      log('ERROR', '❌ Client ID validation failed');
+      this.logger.error('Client ID validation failed');
       throw new WhoopOAuthError('Client ID is required');
     }
 
-    if (!this.config.clientSecret) {
-      log('ERROR', '❌ Client secret validation failed');
-      throw new WhoopOAuthError('Client secret is required');
+    // Public clients prove the authorization with PKCE instead of a secret
+    if (!this.config.clientSecret && !this.config.pkce) {
+      this.logger.error('Client secret validation failed');
+      throw new WhoopOAuthError('Client secret is required unless PKCE is enabled');
     }
 
     if (!this.config.redirectUri) {
-      log('ERROR', '❌ Redirect URI validation failed');
+      this.logger.error('Redirect URI validation failed');
       throw new WhoopOAuthError('Redirect URI is required');
     }
 
     try {
       const parsedUrl = new URL(this.config.redirectUri);
-      log('DEBUG', '✅ Redirect URI is valid', {
+      this.logger.debug('Redirect URI is valid', {
         protocol: parsedUrl.protocol,
         hostname: parsedUrl.hostname,
         port: parsedUrl.port,
         pathname: parsedUrl.pathname
       });
     } catch (urlError) {
-      log('ERROR', '❌ Redirect URI validation failed', {
+      this.logger.error('Redirect URI validation failed', {
         redirectUri: this.config.redirectUri,
         error: urlError instanceof Error ? urlError.message : String(urlError)
       });
       throw new WhoopOAuthError('Redirect URI must be a valid URL');
     }
 
-    log('INFO', '✅ OAuth configuration validated successfully');
+    this.logger.info('OAuth configuration validated successfully');
   }
 
   /**
@@ -97,15 +209,22 @@ export class WhoopOAuthClient {
   public getAuthorizationUrl(options: {
     state?: string;
     scopes?: WhoopScope[];
+    /** S256 PKCE challenge, see createAuthorizationRequest() */
+    codeChallenge?: string;
   } = {}): string {
-    const { state, scopes = this.config.scopes } = options;
+    const { state, scopes = this.config.scopes, codeChallenge } = options;
 
-    log('INFO', '🌐 Generating authorization URL', {
+    this.logger.info('Generating authorization URL', {
       state: state ? 'provided' : 'none',
       scopes,
-      redirectUri: this.config.redirectUri
+      redirectUri: this.config.redirectUri,
+      pkce: !!codeChallenge
     });
 
+    if (this.config.pkce && !codeChallenge) {
+      throw new WhoopOAuthError('PKCE is enabled, pass a codeChallenge or use createAuthorizationRequest()');
+    }
+
     const params: Record<string, string> = {
       response_type: 'code',
       client_id: this.config.clientId,
@@ -117,9 +236,14 @@ export class WhoopOAuthClient {
       params.state = state;
     }
 
+    if (codeChallenge) {
+      params.code_challenge = codeChallenge;
+      params.code_challenge_method = 'S256';
+    }
+
     const authUrl = buildUrl(this.config.baseUrl, '/oauth/oauth2/auth', params);
     
-    log('DEBUG', '🔗 Authorization URL generated', {
+    this.logger.debug('Authorization URL generated', {
       url: authUrl,
       paramsCount: Object.keys(params).length
     });
@@ -127,43 +251,121 @@ export class WhoopOAuthClient {
     return authUrl;
   }
 
+  /**
+   * Generate an authorization URL with a fresh PKCE challenge
+   * Store the returned codeVerifier (e.g. in the session) and pass it to exchangeCodeForTokens()
+   */
+  public async createAuthorizationRequest(options: {
+    state?: string;
+    scopes?: WhoopScope[];
+  } = {}): Promise<{ url: string; codeVerifier: string }> {
+    const { codeVerifier, codeChallenge } = await createPkcePair();
+    return {
+      url: this.getAuthorizationUrl({ ...options, codeChallenge }),
+      codeVerifier
+    };
+  }
+
+  /**
+   * Build an authorization URL that adds scopes the user has not granted yet
+   * The granted scopes are requested again, because the new access token replaces the current one
+   */
+  public async createIncrementalAuthorizationRequest(options: {
+    scopes: WhoopScope[];
+    state?: string;
+  }): Promise<{ url: string; scopes: WhoopScope[]; codeVerifier?: string }> {
+    await this.storeLoadPromise;
+    const granted = parseScopes(this.tokens?.scope);
+    const additional = getMissingScopes(options.scopes, granted);
+
+    if (additional.length === 0) {
+      throw new WhoopOAuthError('All requested scopes are already granted');
+    }
+
+    const scopes = mergeScopes(granted, additional);
+    this.logger.info('Requesting additional scopes', { granted, additional });
+
+    const authorizationOptions: { scopes: WhoopScope[]; state?: string } = { scopes };
+    if (options.state) {
+      authorizationOptions.state = options.state;
+    }
+
+    if (this.config.pkce) {
+      const { url, codeVerifier } = await this.createAuthorizationRequest(authorizationOptions);
+      return { url, scopes, codeVerifier };
+    }
+
+    return { url: this.getAuthorizationUrl(authorizationOptions), scopes };
+  }
+
+  /**
+   * Exchange the code from an incremental authorization and report what the new grant adds
+   * The scope returned by the token endpoint is taken as the truth, the user may have declined some
+   */
+  public async completeIncrementalAuthorization(code: string, options: {
+    codeVerifier?: string;
+    /** Scopes returned by createIncrementalAuthorizationRequest(), used if the token response lists none */
+    scopes?: WhoopScope[];
+  } = {}): Promise<IncrementalAuthorizationResult> {
+    await this.storeLoadPromise;
+    const previousScopes = parseScopes(this.tokens?.scope);
+
+    const tokens = await this.exchangeCodeForTokens(code, options);
+    const grantedScopes = parseScopes(tokens.scope);
+    const newScopes = getMissingScopes(grantedScopes, previousScopes);
+    const newFeatures = getScopeFeatures(newScopes);
+
+    this.logger.info('Incremental authorization completed', { newScopes, newFeatures });
+
+    return { tokens, grantedScopes, newScopes, newFeatures };
+  }
+
   /**
    * Exchange authorization code for access tokens
    */
-  public async exchangeCodeForTokens(code: string): Promise<OAuthTokens> {
-    log('INFO', '🔄 Starting authorization code exchange', {
+  public async exchangeCodeForTokens(code: string, options: {
+    /** PKCE code verifier matching the challenge sent in the authorization URL */
+    codeVerifier?: string;
+    /** Scopes requested in the authorization URL, assumed granted if the token response lists none */
+    scopes?: WhoopScope[];
+  } = {}): Promise<OAuthTokens> {
+    const { codeVerifier } = options;
+
+    this.logger.info('Starting authorization code exchange', {
       codeLength: code.length,
-      codePrefix: code.substring(0, 10) + '...'
+      pkce: !!codeVerifier
     });
 
+    if (this.config.pkce && !codeVerifier) {
+      throw new WhoopOAuthError('PKCE is enabled, pass the codeVerifier created with the authorization URL');
+    }
+
     const tokenUrl = buildUrl(this.config.baseUrl, '/oauth/oauth2/token');
 
     const body = new URLSearchParams({
       grant_type: 'authorization_code',
       code,
       redirect_uri: this.config.redirectUri,
-      client_id: this.config.clientId,
-      client_secret: this.config.clientSecret,
+      ...this.getClientCredentials(),
     });
 
-    log('DEBUG', '📤 Sending token exchange request', {
+    if (codeVerifier) {
+      body.set('code_verifier', codeVerifier);
+    }
+
+    this.logger.debug('Sending token exchange request', {
       tokenUrl,
       grantType: 'authorization_code',
       redirectUri: this.config.redirectUri,
       clientIdPrefix: this.config.clientId?.substring(0, 8) + '...'
     });
 
+    const fetchImpl = resolveFetch(this.fetchImpl);
+
     try {
-      const response = await fetch(tokenUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-          'Accept': 'application/json',
-        },
-        body: body.toString(),
-      });
+      const response = await this.postForm(fetchImpl, 'token exchange', tokenUrl, body);
 
-      log('DEBUG', '📥 Token exchange response received', {
+      this.logger.debug('Token exchange response received', {
         status: response.status,
         statusText: response.statusText,
         contentType: response.headers.get('content-type')
@@ -172,7 +374,7 @@ export class WhoopOAuthClient {
       const data = await response.json();
 
       if (!response.ok) {
-        log('ERROR', '❌ Token exchange failed', {
+        this.logger.error('Token exchange failed', {
           status: response.status,
           error: data.error,
           errorDescription: data.error_description,
@@ -186,15 +388,15 @@ export class WhoopOAuthClient {
         );
       }
 
-      const tokens: OAuthTokens = {
+      const tokens = stampTokens({
         access_token: data.access_token,
         refresh_token: data.refresh_token,
         expires_in: data.expires_in,
         token_type: data.token_type || 'Bearer',
-        scope: data.scope || this.config.scopes.join(' '),
-      };
+        scope: data.scope || (options.scopes ?? this.config.scopes).join(' '),
+      });
 
-      log('INFO', '✅ Token exchange successful', {
+      this.logger.info('Token exchange successful', {
         tokenType: tokens.token_type,
         expiresIn: tokens.expires_in,
         scope: tokens.scope,
@@ -203,16 +405,18 @@ export class WhoopOAuthClient {
       });
 
       this.tokens = tokens;
+      this.scheduleRefresh();
+      await this.persistTokens(tokens);
       return tokens;
     } catch (error) {
       if (error instanceof WhoopOAuthError) {
-        log('ERROR', '💥 OAuth error during token exchange', {
+        this.logger.error('OAuth error during token exchange', {
           errorMessage: error.message
         });
         throw error;
       }
       
-      log('ERROR', '💥 Network error during token exchange', {
+      this.logger.error('Network error during token exchange', {
         error: error instanceof Error ? error.message : String(error)
       });
       throw ErrorFactory.fromNetworkError(error as Error);
@@ -223,46 +427,65 @@ export class WhoopOAuthClient {
    * Refresh access token using refresh token
    */
   public async refreshAccessToken(refreshToken?: string): Promise<OAuthTokens> {
+    await this.storeLoadPromise;
     const tokenToRefresh = refreshToken || this.tokens?.refresh_token;
 
-    log('INFO', '🔄 Starting token refresh', {
+    this.logger.info('Starting token refresh', {
       hasProvidedToken: !!refreshToken,
       hasStoredToken: !!this.tokens?.refresh_token,
       tokenToUseLength: tokenToRefresh?.length
     });
 
     if (!tokenToRefresh) {
-      log('ERROR', '❌ No refresh token available for refresh');
+      this.logger.error('No refresh token available for refresh');
       throw new WhoopAuthError('No refresh token available');
     }
 
     // Prevent concurrent refresh attempts
     if (this.refreshPromise) {
-      log('DEBUG', '⏳ Concurrent refresh attempt detected, waiting for existing refresh...');
+      this.logger.debug('Concurrent refresh attempt detected, waiting for existing refresh...');
       return this.refreshPromise;
     }
 
-    log('DEBUG', '🚀 Starting new refresh operation');
+    this.logger.debug('Starting new refresh operation');
     this.refreshPromise = this.performTokenRefresh(tokenToRefresh);
 
     try {
       const tokens = await this.refreshPromise;
       this.tokens = tokens;
+      this.refreshFailures = 0;
+      this.scheduleRefresh();
+      await this.persistTokens(tokens);
+      this.recordTokenRefresh('success');
       
-      log('INFO', '✅ Token refresh completed successfully', {
+      this.logger.info('Token refresh completed successfully', {
         newTokenType: tokens.token_type,
         newExpiresIn: tokens.expires_in
       });
       
       return tokens;
     } catch (refreshError) {
-      log('ERROR', '💥 Token refresh failed', {
+      this.recordTokenRefresh('failure');
+      this.logger.error('Token refresh failed', {
         error: refreshError instanceof Error ? refreshError.message : String(refreshError)
       });
       throw refreshError;
     } finally {
       this.refreshPromise = undefined;
-      log('DEBUG', '🧹 Refresh promise cleared');
+      this.logger.debug('Refresh promise cleared');
+    }
+  }
+
+  /**
+   * Report a token refresh to the telemetry sink, a faulty sink must never break refreshes
+   */
+  private recordTokenRefresh(outcome: 'success' | 'failure'): void {
+    try {
+      this.metrics?.recordTokenRefresh(outcome);
+    } catch (error) {
+      this.logger.warn('Metrics recorder failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
     }
   }
 
@@ -270,9 +493,8 @@ export class WhoopOAuthClient {
    * Perform the actual token refresh
    */
   private async performTokenRefresh(refreshToken: string): Promise<OAuthTokens> {
-    log('DEBUG', '🔄 Performing token refresh request', {
-      refreshTokenLength: refreshToken.length,
-      refreshTokenPrefix: refreshToken.substring(0, 10) + '...'
+    this.logger.debug('Performing token refresh request', {
+      refreshTokenLength: refreshToken.length
     });
 
     const tokenUrl = buildUrl(this.config.baseUrl, '/oauth/oauth2/token');
@@ -280,91 +502,148 @@ export class WhoopOAuthClient {
     const body = new URLSearchParams({
       grant_type: 'refresh_token',
       refresh_token: refreshToken,
-      client_id: this.config.clientId,
-      client_secret: this.config.clientSecret,
+      ...this.getClientCredentials(),
     });
 
-    log('DEBUG', '📤 Sending refresh token request', {
+    this.logger.debug('Sending refresh token request', {
       tokenUrl,
       grantType: 'refresh_token',
       clientIdPrefix: this.config.clientId?.substring(0, 8) + '...'
     });
 
+    const fetchImpl = resolveFetch(this.fetchImpl);
+
     try {
-      const response = await fetch(tokenUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-          'Accept': 'application/json',
-        },
-        body: body.toString(),
-      });
+      const response = await this.postForm(fetchImpl, 'token refresh', tokenUrl, body);
 
-      log('DEBUG', '📥 Refresh token response received', {
+      this.logger.debug('Refresh token response received', {
         status: response.status,
         statusText: response.statusText,
         contentType: response.headers.get('content-type')
       });
 
-      const data = await response.json();
-
       if (!response.ok) {
-        log('ERROR', '❌ Token refresh request failed', {
+        // Error pages from proxies are often not JSON, the status decides what happens next
+        const data = await response.json().catch(() => ({}));
+        const message = data.error_description || data.error || 'Token refresh failed';
+
+        this.logger.error('Token refresh request failed', {
           status: response.status,
           error: data.error,
           errorDescription: data.error_description,
           responseData: data
         });
 
-        throw new WhoopAuthError(
-          data.error_description || data.error || 'Token refresh failed',
-          data
+        // Only a rejected grant (e.g. invalid_grant) means the refresh token is no good,
+        // rate limits and outages are worth retrying with the same token
+        if (response.status === 400 || response.status === 401) {
+          throw new WhoopAuthError(message, data);
+        }
+        throw ErrorFactory.fromHttpStatus(
+          response.status,
+          { ...data, message },
+          undefined,
+          parseRateLimitHeaders(response.headers)
         );
       }
 
-      log('INFO', '✅ Token refresh request successful', {
+      const data = await response.json();
+
+      this.logger.info('Token refresh request successful', {
         hasNewAccessToken: !!data.access_token,
         hasNewRefreshToken: !!data.refresh_token,
         expiresIn: data.expires_in,
         tokenType: data.token_type
       });
 
-      return {
+      return stampTokens({
         access_token: data.access_token,
         refresh_token: data.refresh_token || refreshToken, // Keep old refresh token if new one not provided
         expires_in: data.expires_in,
         token_type: data.token_type || 'Bearer',
-        scope: data.scope || this.config.scopes.join(' '),
-      };
+        // Without a scope in the response the grant is unchanged, including incrementally added scopes
+        scope: data.scope || this.tokens?.scope || this.config.scopes.join(' '),
+      });
     } catch (error) {
-      if (error instanceof WhoopAuthError) {
-        log('ERROR', '💥 Auth error during token refresh', {
+      if (error instanceof WhoopAPIError) {
+        this.logger.error('Token endpoint error during token refresh', {
+          status: error.status,
           errorMessage: error.message
         });
         throw error;
       }
       
-      log('ERROR', '💥 Network error during token refresh', {
+      this.logger.error('Network error during token refresh', {
         error: error instanceof Error ? error.message : String(error)
       });
       throw ErrorFactory.fromNetworkError(error as Error);
     }
   }
 
+  /**
+   * Client authentication for token requests, public PKCE clients send no secret
+   */
+  private getClientCredentials(): Record<string, string> {
+    const credentials: Record<string, string> = { client_id: this.config.clientId };
+    if (this.config.clientSecret) {
+      credentials.client_secret = this.config.clientSecret;
+    }
+    return credentials;
+  }
+
+  /**
+   * POST a form to an OAuth endpoint inside a client span
+   */
+  private async postForm(
+    fetchImpl: WhoopFetch,
+    operation: string,
+    url: string,
+    body: URLSearchParams
+  ): Promise<Response> {
+    const span = this.tracer.startSpan(`WHOOP OAuth ${operation}`, {
+      'http.request.method': 'POST',
+      'url.full': url
+    });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json',
+    };
+    this.tracer.inject(span, headers);
+
+    try {
+      const response = await fetchImpl(url, {
+        method: 'POST',
+        headers,
+        body: body.toString(),
+      });
+
+      span.setAttribute('http.response.status_code', response.status);
+      span.setStatus({ code: response.ok ? SPAN_STATUS_OK : SPAN_STATUS_ERROR });
+      return response;
+    } catch (error) {
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({ code: SPAN_STATUS_ERROR, message: error instanceof Error ? error.message : String(error) });
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
   /**
    * Revoke access token
    */
   public async revokeToken(token?: string): Promise<void> {
+    await this.storeLoadPromise;
     const tokenToRevoke = token || this.tokens?.access_token;
 
-    log('INFO', '🗑️ Starting token revocation', {
+    this.logger.info('Starting token revocation', {
       hasProvidedToken: !!token,
       hasStoredToken: !!this.tokens?.access_token,
       tokenToRevokeLength: tokenToRevoke?.length
     });
 
     if (!tokenToRevoke) {
-      log('ERROR', '❌ No token available to revoke');
+      this.logger.error('No token available to revoke');
       throw new WhoopAuthError('No token available to revoke');
     }
 
@@ -372,27 +651,20 @@ export class WhoopOAuthClient {
 
     const body = new URLSearchParams({
       token: tokenToRevoke,
-      client_id: this.config.clientId,
-      client_secret: this.config.clientSecret,
+      ...this.getClientCredentials(),
     });
 
-    log('DEBUG', '📤 Sending token revocation request', {
+    this.logger.debug('Sending token revocation request', {
       revokeUrl,
-      clientIdPrefix: this.config.clientId?.substring(0, 8) + '...',
-      tokenPrefix: tokenToRevoke.substring(0, 10) + '...'
+      clientIdPrefix: this.config.clientId?.substring(0, 8) + '...'
     });
 
+    const fetchImpl = resolveFetch(this.fetchImpl);
+
     try {
-      const response = await fetch(revokeUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-          'Accept': 'application/json',
-        },
-        body: body.toString(),
-      });
+      const response = await this.postForm(fetchImpl, 'token revocation', revokeUrl, body);
 
-      log('DEBUG', '📥 Token revocation response received', {
+      this.logger.debug('Token revocation response received', {
         status: response.status,
         statusText: response.statusText
       });
@@ -400,7 +672,7 @@ export class WhoopOAuthClient {
       if (!response.ok) {
         const data = await response.json().catch(() => ({}));
         
-        log('ERROR', '❌ Token revocation failed', {
+        this.logger.error('Token revocation failed', {
           status: response.status,
           error: data.error,
           errorDescription: data.error_description,
@@ -416,19 +688,21 @@ export class WhoopOAuthClient {
       // Clear stored tokens if we revoked the current access token
       if (token === this.tokens?.access_token || !token) {
         this.tokens = undefined;
-        log('INFO', '🧹 Cleared stored tokens after revocation');
+        this.scheduleRefresh();
+        await this.persistTokens(undefined);
+        this.logger.info('Cleared stored tokens after revocation');
       }
 
-      log('INFO', '✅ Token revocation successful');
+      this.logger.info('Token revocation successful');
     } catch (error) {
       if (error instanceof WhoopAuthError) {
-        log('ERROR', '💥 Auth error during token revocation', {
+        this.logger.error('Auth error during token revocation', {
           errorMessage: error.message
         });
         throw error;
       }
       
-      log('ERROR', '💥 Network error during token revocation', {
+      this.logger.error('Network error during token revocation', {
         error: error instanceof Error ? error.message : String(error)
       });
       throw ErrorFactory.fromNetworkError(error as Error);
@@ -437,9 +711,10 @@ export class WhoopOAuthClient {
 
   /**
    * Set tokens manually (e.g., from storage)
+   * Tokens without expires_at are taken to be issued now, and are written to the token store
    */
   public setTokens(tokens: OAuthTokens): void {
-    log('INFO', '🎫 Setting tokens manually', {
+    this.logger.info('Setting tokens manually', {
       hasAccessToken: !!tokens.access_token,
       hasRefreshToken: !!tokens.refresh_token,
       tokenType: tokens.token_type,
@@ -448,9 +723,11 @@ export class WhoopOAuthClient {
       accessTokenLength: tokens.access_token?.length
     });
 
-    this.tokens = tokens;
+    this.tokens = tokens.expires_at === undefined ? stampTokens(tokens) : tokens;
+    this.scheduleRefresh();
+    void this.persistTokens(this.tokens);
     
-    log('DEBUG', '✅ Tokens set successfully');
+    this.logger.debug('Tokens set successfully');
   }
 
   /**
@@ -459,7 +736,7 @@ export class WhoopOAuthClient {
   public getTokens(): OAuthTokens | undefined {
     const hasTokens = !!this.tokens;
     
-    log('DEBUG', '📋 Retrieving current tokens', {
+    this.logger.debug('Retrieving current tokens', {
       hasTokens,
       tokenType: this.tokens?.token_type,
       hasAccessToken: !!this.tokens?.access_token,
@@ -470,39 +747,34 @@ export class WhoopOAuthClient {
   }
 
   /**
-   * Check if tokens are expired
+   * Check if tokens are expired, or will be within the expiry skew
    */
   public isTokenExpired(tokens?: OAuthTokens): boolean {
     const currentTokens = tokens || this.tokens;
     
-    log('DEBUG', '⏰ Checking token expiration', {
+    this.logger.debug('Checking token expiration', {
       hasTokens: !!currentTokens,
-      hasExpiresIn: !!currentTokens?.expires_in,
-      expiresIn: currentTokens?.expires_in
+      expiresAt: currentTokens?.expires_at
     });
     
     if (!currentTokens) {
-      log('DEBUG', '❌ No tokens available - considering expired');
+      this.logger.debug('No tokens available - considering expired');
       return true;
     }
 
-    // If no expires_in, assume token is still valid
-    if (!currentTokens.expires_in) {
-      log('DEBUG', '✅ No expiration time - considering valid');
+    // Without a known expiry the token is used until the API rejects it
+    if (currentTokens.expires_at === undefined) {
+      this.logger.debug('No expiration time - considering valid');
       return false;
     }
 
-    // Add buffer of 5 minutes before expiration
-    const bufferMs = 5 * 60 * 1000;
-    const expirationTime = Date.now() + (currentTokens.expires_in * 1000) - bufferMs;
-    const isExpired = Date.now() >= expirationTime;
+    const isExpired = Date.now() >= currentTokens.expires_at - this.config.expirySkewMs;
     
-    log('DEBUG', `${isExpired ? '❌' : '✅'} Token expiration check result`, {
+    this.logger.debug('Token expiration check result', {
       isExpired,
-      expiresIn: currentTokens.expires_in,
-      bufferMinutes: 5,
+      skewMs: this.config.expirySkewMs,
       currentTime: new Date().toISOString(),
-      expirationTime: new Date(expirationTime).toISOString()
+      expirationTime: new Date(currentTokens.expires_at).toISOString()
     });
     
     return isExpired;
@@ -512,60 +784,187 @@ export class WhoopOAuthClient {
    * Get valid access token, refreshing if necessary
    */
   public async getValidAccessToken(): Promise<string> {
-    log('DEBUG', '🔑 Getting valid access token...');
+    this.logger.debug('Getting valid access token...');
+    await this.storeLoadPromise;
 
     if (!this.tokens) {
-      log('ERROR', '❌ No tokens available for access token retrieval');
+      this.logger.error('No tokens available for access token retrieval');
       throw new WhoopAuthError('No tokens available. Please authenticate first.');
     }
 
-    log('DEBUG', '🔍 Checking if current token needs refresh...');
+    this.logger.debug('Checking if current token needs refresh...');
     
     if (this.isTokenExpired(this.tokens)) {
-      log('INFO', '🔄 Token is expired, refreshing...');
+      this.logger.info('Token is expired, refreshing...');
       const refreshedTokens = await this.refreshAccessToken();
       
-      log('INFO', '✅ Token refreshed, returning new access token', {
+      this.logger.info('Token refreshed, returning new access token', {
         newTokenLength: refreshedTokens.access_token.length
       });
       
       return refreshedTokens.access_token;
     }
 
-    log('DEBUG', '✅ Current token is valid, returning access token', {
-      tokenLength: this.tokens.access_token.length,
-      tokenPrefix: this.tokens.access_token.substring(0, 10) + '...'
+    this.logger.debug('Current token is valid, returning access token', {
+      tokenLength: this.tokens.access_token.length
     });
 
     return this.tokens.access_token;
   }
 
   /**
-   * Clear stored tokens
+   * Clear tokens, also from the token store so rejected tokens are not loaded again
    */
   public clearTokens(): void {
     const hadTokens = !!this.tokens;
     
-    log('INFO', '🗑️ Clearing stored tokens', {
+    this.logger.info('Clearing stored tokens', {
       hadTokens,
       hadAccessToken: !!this.tokens?.access_token,
       hadRefreshToken: !!this.tokens?.refresh_token
     });
 
     this.tokens = undefined;
+    this.scheduleRefresh();
+    void this.persistTokens(undefined);
     
-    log('DEBUG', '✅ Tokens cleared successfully');
+    this.logger.debug('Tokens cleared successfully');
+  }
+
+  /**
+   * Refresh tokens in the background shortly before they expire
+   * Background refreshes share the in-flight refresh with request-triggered ones
+   */
+  public startProactiveRefresh(config: ProactiveRefreshConfig = this.proactiveRefresh ?? {}): void {
+    if (this.disposed) {
+      throw new WhoopAuthError('OAuth client has been disposed');
+    }
+
+    this.proactiveRefresh = config;
+    this.refreshFailures = 0;
+    this.scheduleRefresh();
+  }
+
+  /**
+   * Stop background refreshes, an in-flight refresh still completes
+   */
+  public stopProactiveRefresh(): void {
+    this.proactiveRefresh = undefined;
+    this.clearRefreshTimer();
+  }
+
+  /**
+   * Release timers, the client must not be used for background refresh afterwards
+   */
+  public dispose(): void {
+    this.disposed = true;
+    this.stopProactiveRefresh();
+  }
+
+  /**
+   * (Re)arm the refresh timer for the current tokens
+   */
+  private scheduleRefresh(delayMs?: number): void {
+    this.clearRefreshTimer();
+
+    const tokens = this.tokens;
+    if (!this.proactiveRefresh || this.disposed || !tokens?.refresh_token || tokens.expires_at === undefined) {
+      return;
+    }
+
+    const leadTimeMs = this.proactiveRefresh.leadTimeMs ?? DEFAULT_REFRESH_LEAD_TIME_MS;
+    const dueInMs = delayMs ?? Math.max(0, tokens.expires_at - this.config.expirySkewMs - leadTimeMs - Date.now());
+
+    this.logger.debug('Scheduled proactive token refresh', { delayMs: dueInMs });
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = undefined;
+      void this.runScheduledRefresh(delayMs !== undefined);
+    }, Math.min(dueInMs, MAX_TIMER_DELAY_MS));
+
+    // Never keep a Node.js process alive just to refresh tokens
+    (this.refreshTimer as { unref?: () => void }).unref?.();
+  }
+
+  private clearRefreshTimer(): void {
+    if (this.refreshTimer !== undefined) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+  }
+
+  /**
+   * Run a scheduled refresh, backing off after failures
+   */
+  private async runScheduledRefresh(isRetry: boolean): Promise<void> {
+    const config = this.proactiveRefresh;
+    const tokens = this.tokens;
+    if (!config || !tokens?.expires_at) {
+      return;
+    }
+
+    // Timers are capped, so a far-off refresh may fire early
+    const leadTimeMs = config.leadTimeMs ?? DEFAULT_REFRESH_LEAD_TIME_MS;
+    if (!isRetry && tokens.expires_at - this.config.expirySkewMs - leadTimeMs > Date.now()) {
+      this.scheduleRefresh();
+      return;
+    }
+
+    try {
+      this.logger.info('Refreshing tokens ahead of expiry');
+      const refreshed = await this.refreshAccessToken();
+      this.lastRefreshDelayMs = undefined;
+
+      try {
+        await config.onRefresh?.(refreshed);
+      } catch (error) {
+        this.logger.warn('onRefresh callback failed', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    } catch (error) {
+      // A rejected refresh token will not start working again, leave recovery to the request path
+      const retryInMs = error instanceof WhoopAuthError
+        ? undefined
+        : calculateRetryDelay(++this.refreshFailures, { ...DEFAULT_REFRESH_BACKOFF, ...config.backoff }, this.lastRefreshDelayMs);
+
+      this.logger.warn('Proactive token refresh failed', {
+        error: error instanceof Error ? error.message : String(error),
+        retryInMs
+      });
+
+      try {
+        config.onError?.(error, retryInMs);
+      } catch {
+        // A faulty listener must not stop the scheduler
+      }
+
+      if (retryInMs !== undefined && this.proactiveRefresh === config) {
+        this.lastRefreshDelayMs = retryInMs;
+        this.scheduleRefresh(retryInMs);
+      }
+    }
   }
 
   /**
    * Get OAuth configuration (without sensitive data)
    */
-  public getConfig(): Omit<Required<OAuthConfig>, 'clientSecret'> {
+  public getConfig(): Omit<ResolvedOAuthConfig, 'clientSecret'> {
     const { clientSecret, ...safeConfig } = this.config;
     return safeConfig;
   }
 }
 
+/**
+ * Record when tokens were received and when they expire, tokens with an unknown lifetime get no expiry
+ */
+function stampTokens(tokens: OAuthTokens, obtainedAt: number = Date.now()): OAuthTokens {
+  const stamped: OAuthTokens = { ...tokens, obtained_at: obtainedAt };
+  if (tokens.expires_in > 0) {
+    stamped.expires_at = obtainedAt + tokens.expires_in * 1000;
+  }
+  return stamped;
+}
+
 /**
  * Helper function to parse authorization callback
  */
@@ -0,0 +1,47 @@
+/**
+ * PKCE Helpers
+ * Proof Key for Code Exchange (RFC 7636) for public clients such as mobile apps and CLIs
+ */
+
+import { WhoopConfigError, WhoopOAuthError } from '../errors';
+import type { PkcePair } from '../types';
+import { base64UrlEncode, getWebCrypto, randomBytes } from './crypto';
+
+// RFC 7636 unreserved characters, 43 to 128 long
+const CODE_VERIFIER_PATTERN = /^[A-Za-z0-9\-._~]{43,128}$/;
+
+/**
+ * Generate a random code verifier (32 random bytes give the recommended 43 characters)
+ */
+export function generateCodeVerifier(byteLength: number = 32): string {
+  if (!Number.isInteger(byteLength) || byteLength < 32 || byteLength > 96) {
+    throw new WhoopConfigError('PKCE code verifier length must be between 32 and 96 bytes');
+  }
+
+  return base64UrlEncode(randomBytes(byteLength));
+}
+
+/**
+ * Derive the S256 code challenge for a code verifier
+ */
+export async function createCodeChallenge(codeVerifier: string): Promise<string> {
+  if (!CODE_VERIFIER_PATTERN.test(codeVerifier)) {
+    throw new WhoopOAuthError('Invalid PKCE code verifier');
+  }
+
+  const digest = await getWebCrypto().subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+/**
+ * Generate a code verifier and its S256 challenge
+ * Keep the verifier private until the token exchange, only the challenge goes in the authorization URL
+ */
+export async function createPkcePair(): Promise<PkcePair> {
+  const codeVerifier = generateCodeVerifier();
+  return {
+    codeVerifier,
+    codeChallenge: await createCodeChallenge(codeVerifier),
+    codeChallengeMethod: 'S256'
+  };
+}
\ No newline at end of file
@@ -0,0 +1,47 @@
+/**
+ * OAuth Scope Helpers
+ * Parsing and comparing granted scopes
+ */
+
+import type { WhoopFeature, WhoopScope } from '../types';
+
+/**
+ * Feature each scope unlocks
+ */
+export const SCOPE_FEATURES: Record<WhoopScope, WhoopFeature> = {
+  'read:recovery': 'recovery',
+  'read:cycles': 'cycles',
+  'read:workout': 'workouts',
+  'read:sleep': 'sleep',
+  'read:profile': 'profile',
+  'read:body_measurement': 'body_measurement',
+  'offline': 'offline_access'
+};
+
+/**
+ * Split a space-separated scope string as returned with OAuth tokens
+ */
+export function parseScopes(scope: string | undefined): WhoopScope[] {
+  return (scope ?? '').split(/\s+/).filter(Boolean) as WhoopScope[];
+}
+
+/**
+ * Scopes from required that are not in granted
+ */
+export function getMissingScopes(required: WhoopScope[], granted: WhoopScope[]): WhoopScope[] {
+  return required.filter(scope => !granted.includes(scope));
+}
+
+/**
+ * Combine scope lists without duplicates, keeping first-seen order
+ */
+export function mergeScopes(...lists: WhoopScope[][]): WhoopScope[] {
+  return [...new Set(lists.flat())];
+}
+
+/**
+ * Features unlocked by a list of scopes, unknown scopes are ignored
+ */
+export function getScopeFeatures(scopes: WhoopScope[]): WhoopFeature[] {
+  return scopes.flatMap(scope => SCOPE_FEATURES[scope] ? [SCOPE_FEATURES[scope]] : []);
+}
\ No newline at end of file
@@ -0,0 +1,164 @@
+/**
+ * Signed OAuth State
+ * HMAC-signed, expiring state values with replay protection for the authorization code flow
+ */
+
+import { WhoopConfigError, WhoopOAuthError } from '../errors';
+import type { OAuthErrorCode, OAuthNonceStore, OAuthStateConfig, OAuthStateData } from '../types';
+import { base64UrlDecode, base64UrlEncode, getWebCrypto, randomBytes } from './crypto';
+import { validateAuthorizationCallback } from './oauth';
+
+const DEFAULT_STATE_TTL_MS = 10 * 60 * 1000;
+const MIN_SECRET_BYTES = 32;
+
+/**
+ * Default nonce store, only protects a single process
+ */
+export class InMemoryNonceStore implements OAuthNonceStore {
+  private readonly used = new Map<string, number>();
+
+  consume(nonce: string, expiresAt: number): boolean {
+    const now = Date.now();
+    for (const [usedNonce, usedUntil] of this.used) {
+      if (usedUntil <= now) {
+        this.used.delete(usedNonce);
+      }
+    }
+
+    if (this.used.has(nonce)) {
+      return false;
+    }
+
+    this.used.set(nonce, expiresAt);
+    return true;
+  }
+}
+
+/**
+ * Creates and verifies state values of the form base64url(claims).base64url(signature)
+ *
+ * The state is tied to nothing but the secret, so verification also works on another
+ * instance or after a restart as long as the nonce store is shared.
+ */
+export class OAuthStateManager<T = unknown> {
+  private readonly ttlMs: number;
+  private readonly nonceStore: OAuthNonceStore;
+  private readonly key: Promise<CryptoKey>;
+
+  constructor(config: OAuthStateConfig) {
+    const secret = typeof config.secret === 'string'
+      ? new TextEncoder().encode(config.secret)
+      : config.secret;
+
+    if (secret.length < MIN_SECRET_BYTES) {
+      throw new WhoopConfigError(`OAuth state secret must be at least ${MIN_SECRET_BYTES} bytes`);
+    }
+    if (config.ttlMs !== undefined && (!Number.isFinite(config.ttlMs) || config.ttlMs <= 0)) {
+      throw new WhoopConfigError('OAuth state ttlMs must be a positive number');
+    }
+
+    this.ttlMs = config.ttlMs ?? DEFAULT_STATE_TTL_MS;
+    this.nonceStore = config.nonceStore ?? new InMemoryNonceStore();
+    this.key = getWebCrypto().subtle.importKey(
+      'raw',
+      secret,
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify']
+    );
+    // Surface import failures on first use rather than as an unhandled rejection
+    this.key.catch(() => undefined);
+  }
+
+  /**
+   * Create a state value for the authorization URL
+   */
+  async create(payload?: T): Promise<string> {
+    const issuedAt = Date.now();
+    const claims: OAuthStateData<T> = {
+      nonce: base64UrlEncode(randomBytes(16)),
+      issuedAt,
+      expiresAt: issuedAt + this.ttlMs
+    };
+    if (payload !== undefined) {
+      claims.payload = payload;
+    }
+
+    const body = base64UrlEncode(new TextEncoder().encode(JSON.stringify(claims)));
+    const signature = await getWebCrypto().subtle.sign('HMAC', await this.key, new TextEncoder().encode(body));
+
+    return `${body}.${base64UrlEncode(new Uint8Array(signature))}`;
+  }
+
+  /**
+   * Verify a state value returned to the redirect URI and consume its nonce
+   * Rejects with OAUTH_STATE_INVALID, OAUTH_STATE_TAMPERED, OAUTH_STATE_EXPIRED or OAUTH_STATE_REPLAYED
+   */
+  async verify(state: string | undefined): Promise<OAuthStateData<T>> {
+    if (!state) {
+      throw stateError('State parameter missing from callback', 'OAUTH_STATE_INVALID');
+    }
+
+    const [body, signature, ...rest] = state.split('.');
+    if (!body || !signature || rest.length > 0) {
+      throw stateError('State parameter is malformed', 'OAUTH_STATE_INVALID');
+    }
+
+    let signatureBytes: Uint8Array;
+    try {
+      signatureBytes = base64UrlDecode(signature);
+    } catch {
+      throw stateError('State parameter is malformed', 'OAUTH_STATE_INVALID');
+    }
+
+    const valid = await getWebCrypto().subtle.verify(
+      'HMAC',
+      await this.key,
+      signatureBytes,
+      new TextEncoder().encode(body)
+    );
+    if (!valid) {
+      throw stateError('State parameter signature is invalid', 'OAUTH_STATE_TAMPERED');
+    }
+
+    const claims = parseClaims<T>(body);
+    if (Date.now() >= claims.expiresAt) {
+      throw stateError('State parameter has expired', 'OAUTH_STATE_EXPIRED');
+    }
+
+    if (!(await this.nonceStore.consume(claims.nonce, claims.expiresAt))) {
+      throw stateError('State parameter was already used', 'OAUTH_STATE_REPLAYED');
+    }
+
+    return claims;
+  }
+
+  /**
+   * Validate a callback URL and verify its state in one step
+   */
+  async verifyCallback(url: string): Promise<{ code: string; state: OAuthStateData<T> }> {
+    const { code, state } = validateAuthorizationCallback(url);
+    return { code, state: await this.verify(state) };
+  }
+}
+
+function stateError(message: string, code: OAuthErrorCode): WhoopOAuthError {
+  return new WhoopOAuthError(message, undefined, undefined, undefined, code);
+}
+
+function parseClaims<T>(body: string): OAuthStateData<T> {
+  try {
+    const claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(body)));
+    if (
+      typeof claims?.nonce === 'string' &&
+      typeof claims.issuedAt === 'number' &&
+      typeof claims.expiresAt === 'number'
+    ) {
+      return claims as OAuthStateData<T>;
+    }
+  } catch {
+    // Fall through, a correctly signed body is only unreadable if the secret leaked
+  }
+
+  throw stateError('State parameter is malformed', 'OAUTH_STATE_INVALID');
+}
\ No newline at end of file
@@ -0,0 +1,164 @@
+/**
+ * Token Encryption
+ * AES-256-GCM encryption of OAuth tokens at rest with key rotation
+ */
+
+import { WhoopConfigError, WhoopTokenDecryptionError } from '../errors';
+import type { OAuthTokens, TokenCipherConfig, TokenStore } from '../types';
+import { base64UrlDecode, base64UrlEncode, getWebCrypto, randomBytes } from './crypto';
+
+const BLOB_VERSION = 'v1';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Serializes tokens to encrypted blobs of the form v1.keyId.base64url(iv).base64url(ciphertext)
+ *
+ * The version, key id and an optional context such as the user id are authenticated along
+ * with the tokens, so a blob copied to another user or edited in any way fails to decrypt.
+ */
+export class TokenCipher {
+  private readonly currentKeyId: string;
+  private readonly keys = new Map<string, Promise<CryptoKey>>();
+
+  constructor(config: TokenCipherConfig) {
+    const [current] = config.keys;
+    if (!current) {
+      throw new WhoopConfigError('Token encryption needs at least one key');
+    }
+
+    for (const { id, key } of config.keys) {
+      if (!KEY_ID_PATTERN.test(id)) {
+        throw new WhoopConfigError(`Token encryption key id "${id}" may only contain letters, digits, '-' and '_'`);
+      }
+      if (this.keys.has(id)) {
+        throw new WhoopConfigError(`Token encryption key id "${id}" is used twice`);
+      }
+      if (key.length !== KEY_BYTES) {
+        throw new WhoopConfigError(`Token encryption key "${id}" must be ${KEY_BYTES} bytes`);
+      }
+
+      const cryptoKey = getWebCrypto().subtle.importKey('raw', key, 'AES-GCM', false, ['encrypt', 'decrypt']);
+      // Surface import failures on first use rather than as an unhandled rejection
+      cryptoKey.catch(() => undefined);
+      this.keys.set(id, cryptoKey);
+    }
+
+    this.currentKeyId = current.id;
+  }
+
+  /**
+   * Encrypt tokens with the current key, pass the same context to decrypt
+   */
+  async encrypt(tokens: OAuthTokens, context = ''): Promise<string> {
+    const header = `${BLOB_VERSION}.${this.currentKeyId}`;
+    const iv = randomBytes(IV_BYTES);
+    const ciphertext = await getWebCrypto().subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: additionalData(header, context) },
+      await this.keys.get(this.currentKeyId)!,
+      new TextEncoder().encode(JSON.stringify(tokens))
+    );
+
+    return `${header}.${base64UrlEncode(iv)}.${base64UrlEncode(new Uint8Array(ciphertext))}`;
+  }
+
+  /**
+   * Decrypt a blob written by encrypt, rejects with WhoopTokenDecryptionError
+   */
+  async decrypt(blob: string, context = ''): Promise<OAuthTokens> {
+    const { keyId, iv, ciphertext } = parseBlob(blob);
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new WhoopTokenDecryptionError(`Encrypted tokens need key "${keyId}", which is not configured`, keyId);
+    }
+
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await getWebCrypto().subtle.decrypt(
+        { name: 'AES-GCM', iv, additionalData: additionalData(`${BLOB_VERSION}.${keyId}`, context) },
+        await key,
+        ciphertext
+      );
+    } catch (error) {
+      throw new WhoopTokenDecryptionError(
+        'Encrypted tokens failed authentication, they were altered or belong to another context',
+        keyId,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    const tokens = JSON.parse(new TextDecoder().decode(plaintext));
+    if (typeof tokens?.access_token !== 'string') {
+      throw new WhoopTokenDecryptionError('Encrypted tokens do not contain OAuth tokens', keyId);
+    }
+    return tokens as OAuthTokens;
+  }
+
+  /**
+   * Whether a blob was encrypted with the current key, older blobs should be re-encrypted
+   */
+  usesCurrentKey(blob: string): boolean {
+    return parseBlob(blob).keyId === this.currentKeyId;
+  }
+}
+
+/**
+ * Wraps a store of strings so tokens are only ever stored encrypted
+ *
+ * Blobs are bound to their user id, and blobs written with an older key are re-encrypted
+ * with the current key when read, so rotation completes without a migration.
+ */
+export class EncryptedTokenStore implements TokenStore {
+  private readonly cipher: TokenCipher;
+
+  constructor(
+    private readonly store: TokenStore<string>,
+    cipher: TokenCipher | TokenCipherConfig
+  ) {
+    this.cipher = cipher instanceof TokenCipher ? cipher : new TokenCipher(cipher);
+  }
+
+  async get(userId: string): Promise<OAuthTokens | undefined> {
+    const blob = await this.store.get(userId);
+    if (blob === undefined) {
+      return undefined;
+    }
+
+    const tokens = await this.cipher.decrypt(blob, userId);
+    if (!this.cipher.usesCurrentKey(blob)) {
+      // Best effort, the next set rewrites the blob anyway
+      await this.set(userId, tokens).catch(() => undefined);
+    }
+    return tokens;
+  }
+
+  async set(userId: string, tokens: OAuthTokens): Promise<void> {
+    await this.store.set(userId, await this.cipher.encrypt(tokens, userId));
+  }
+
+  async delete(userId: string): Promise<void> {
+    await this.store.delete(userId);
+  }
+}
+
+function additionalData(header: string, context: string): Uint8Array {
+  return new TextEncoder().encode(`${header}|${context}`);
+}
+
+function parseBlob(blob: string): { keyId: string; iv: Uint8Array; ciphertext: Uint8Array } {
+  const [version, keyId, iv, ciphertext, ...rest] = typeof blob === 'string' ? blob.split('.') : [];
+
+  if (version === BLOB_VERSION && keyId && iv && ciphertext && rest.length === 0) {
+    try {
+      const ivBytes = base64UrlDecode(iv);
+      if (ivBytes.length === IV_BYTES) {
+        return { keyId, iv: ivBytes, ciphertext: base64UrlDecode(ciphertext) };
+      }
+    } catch {
+      // Fall through to the malformed error
+    }
+  }
+
+  throw new WhoopTokenDecryptionError('Encrypted tokens are malformed');
+}
\ No newline at end of file
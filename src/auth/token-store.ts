@@ -0,0 +1,102 @@
+/**
+ * Token Stores
+ * Built-in TokenStore implementations for persisting OAuth tokens per user
+ */
+
+import type { OAuthTokens, TokenStore } from '../types';
+
+/**
+ * Keeps tokens for the lifetime of the process, useful in tests and short-lived scripts
+ */
+export class InMemoryTokenStore<T = OAuthTokens> implements TokenStore<T> {
+  private readonly tokens = new Map<string, T>();
+
+  async get(userId: string): Promise<T | undefined> {
+    const tokens = this.tokens.get(userId);
+    return tokens === undefined ? undefined : copy(tokens);
+  }
+
+  async set(userId: string, tokens: T): Promise<void> {
+    this.tokens.set(userId, copy(tokens));
+  }
+
+  async delete(userId: string): Promise<void> {
+    this.tokens.delete(userId);
+  }
+}
+
+/**
+ * Stores tokens for all users in one JSON file (Node.js only)
+ *
+ * Writes go to a temporary file that replaces the original, so a crash never leaves a
+ * half-written file, and are serialized so concurrent refreshes cannot lose updates.
+ * The file holds refresh tokens in plain text unless wrapped in an EncryptedTokenStore,
+ * and is created readable by the owner only.
+ */
+export class FileTokenStore<T = OAuthTokens> implements TokenStore<T> {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async get(userId: string): Promise<T | undefined> {
+    await this.writeQueue;
+    const all = await this.readAll();
+    return all[userId];
+  }
+
+  async set(userId: string, tokens: T): Promise<void> {
+    return this.update(all => {
+      all[userId] = tokens;
+    });
+  }
+
+  async delete(userId: string): Promise<void> {
+    return this.update(all => {
+      delete all[userId];
+    });
+  }
+
+  private update(change: (all: Record<string, T>) => void): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      const all = await this.readAll();
+      change(all);
+      await this.writeAll(all);
+    });
+
+    // Keep the queue alive after a failed write, the caller still sees the error
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  private async readAll(): Promise<Record<string, T>> {
+    const fs = await import('fs/promises');
+
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private async writeAll(all: Record<string, T>): Promise<void> {
+    const fs = await import('fs/promises');
+    const tempPath = `${this.filePath}.${Date.now()}-${Math.random().toString(36).slice(2)}.tmp`;
+
+    await fs.writeFile(tempPath, JSON.stringify(all, null, 2), { mode: 0o600 });
+    try {
+      await fs.rename(tempPath, this.filePath);
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+}
+
+// Hand out copies so callers cannot change stored tokens in place
+function copy<T>(value: T): T {
+  return typeof value === 'object' && value !== null ? { ...value } : value;
+}
\ No newline at end of file
@@ -4,43 +4,108 @@
  * Built for athlete-grade performance like WHOOP's hardware
  */
 
-import type { RequestOptions, WhoopSDKConfig, OAuthTokens, PerformanceMetrics } from '../types';
+import type {
+  RequestOptions,
+  WhoopSDKConfig,
+  OAuthConfig,
+  OAuthTokens,
+  MetricsRecorder,
+  PerformanceHooks,
+  PerformanceMetrics,
+  InterceptedRequest,
+  InterceptedResponse,
+  WhoopInterceptor,
+  WhoopFetch,
+  RateLimiter,
+  RateLimitState,
+  RetryPolicy,
+  CircuitBreaker,
+  WhoopResponse,
+  ResponseSchema,
+  ResponseValidationMode,
+  TimeoutPhase,
+  WhoopScope,
+  WhoopTokenProvider
+} from '../types';
 import { 
-  ErrorFactory, 
-  isAuthError,
-  getRetryInfo
+  ErrorFactory,
+  isWhoopAPIError
 } from '../errors/factory';
 import { 
-  WhoopTimeoutError
+  WhoopAbortError,
+  WhoopConfigError,
+  WhoopTimeoutError,
+  WhoopResponseValidationError
 } from '../errors/base';
 import { 
   WhoopAuthError
 } from '../errors/api';
+import { WhoopScopeError } from '../errors/oauth';
+import { getMissingScopes, parseScopes } from '../auth/scopes';
 import { 
   buildUrl, 
   combineSignals, 
-  createTimeoutSignal, 
+  createRequestTimeout,
   withRetry,
+  DEFAULT_RETRY_POLICY,
   getUserAgent,
   DEFAULT_BASE_URL,
   WhoopCache,
   RequestDeduplicator,
+  WhoopRateLimiter,
+  WhoopCircuitBreaker,
   generateCacheKey,
-  generateDedupKey
+  generateDedupKey,
+  createLogger,
+  resolveFetch,
+  parseRateLimitHeaders,
+  headersToObject,
+  validateResponse,
+  getRouteTemplate,
+  SDKTracer,
+  RequestMetricsCollector,
+  getResponseSize,
+  SPAN_STATUS_OK,
+  SPAN_STATUS_ERROR,
+  type SDKSpan,
+  type SDKLogger
 } from '../utils';
 import { WhoopOAuthClient } from '../auth/oauth';
+import {
+  createAuthInterceptor,
+  createErrorMappingInterceptor,
+  isInterceptorResponse,
+  isInterceptorRetry
+} from './interceptors';
 
-// Debug logging utility
-const log = (level: 'DEBUG' | 'INFO' | 'WARN' | 'ERROR', message: string, data?: any) => {
-  const timestamp = new Date().toISOString();
-  const prefix = `[${timestamp}] [WHOOP-SDK-HTTP] [${level}]`;
-  
-  if (data) {
-    console.log(`${prefix} ${message}`, data);
-  } else {
-    console.log(`${prefix} ${message}`);
-  }
-};
+// Upper bound on interceptor-requested replays of a single attempt
+const MAX_INTERCEPTOR_REPLAYS = 3;
+
+// Per-attempt bookkeeping threaded through the request pipeline
+interface RequestContext {
+  requestId: string;
+  cacheStatus: PerformanceMetrics['cacheStatus'];
+  /** Retries before this attempt */
+  retryCount: number;
+  /** Span of the logical request */
+  span: SDKSpan;
+  progress: RequestProgress;
+}
+
+/**
+ * Details of a logical request gathered for PerformanceMetrics
+ */
+interface RequestProgress {
+  /** Attempts made by this caller (0 for cache hits and joined requests) */
+  attempts: number;
+  cacheStatus: PerformanceMetrics['cacheStatus'];
+  deduplicated: boolean;
+  rateLimitWaitMs: number;
+  responseSize?: number;
+}
+
+// Response of a single attempt, before request-level metadata is added
+type AttemptResult<T> = Pick<WhoopResponse<T>, 'data' | 'status' | 'headers' | 'url' | 'requestId'>;
 
 /**
  * High-performance HTTP client for WHOOP API requests
@@ -50,12 +115,33 @@ export class WhoopHttpClient {
   private readonly baseUrl: string;
   private readonly defaultHeaders: Record<string, string>;
   private readonly defaultRequestOptions: RequestOptions;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly responseValidation: ResponseValidationMode;
   private readonly oauthClient?: WhoopOAuthClient;
+  private readonly staticAccessToken: string | undefined;
+  private lastProviderToken: string | undefined;
+  private readonly staticScope: string | undefined;
+  private readonly tokenProvider: WhoopTokenProvider | undefined;
   private readonly onTokenRefresh: ((tokens: OAuthTokens) => void | Promise<void>) | undefined;
+  private readonly logger: SDKLogger;
+  private readonly fetchImpl: WhoopFetch | undefined;
+  private readonly tracer: SDKTracer;
+  private readonly requestSpans = new Map<string, SDKSpan>();
+  // Access token each in-flight request is sent with, resolved once per request
+  private readonly requestTokens = new Map<string, string | undefined>();
+
+  // Request/response pipeline
+  private readonly interceptors: WhoopInterceptor[];
+  private readonly authInterceptor: WhoopInterceptor;
+  private readonly errorMappingInterceptor: WhoopInterceptor;
   
   // Performance optimizations
   private readonly cache: WhoopCache;
+  private readonly cacheEnabled: boolean;
   private readonly deduplicator: RequestDeduplicator;
+  private readonly rateLimiter: RateLimiter | undefined;
+  private readonly circuitBreaker: CircuitBreaker | undefined;
+  private rateLimitState: RateLimitState | undefined;
   private readonly performanceHooks: {
     onRequestStart?: (url: string, options: any) => void;
     onRequestEnd?: (metrics: PerformanceMetrics) => void;
@@ -65,29 +151,40 @@ export class WhoopHttpClient {
   private readonly slowRequestThreshold: number;
   
   // Performance metrics
+  private readonly requestMetrics: RequestMetricsCollector;
+  private readonly metricsRecorder: MetricsRecorder | undefined;
   private metrics = {
     totalRequests: 0,
     cachedRequests: 0,
-    dedupedRequests: 0,
-    avgResponseTime: 0,
-    slowRequests: 0
+    dedupedRequests: 0
   };
 
   constructor(config: WhoopSDKConfig = {}) {
-    log('INFO', '🚀 Initializing WhoopHttpClient', {
+    this.logger = createLogger({ logger: config.logger, level: config.logLevel, component: 'http' });
+
+    this.logger.info('Initializing WhoopHttpClient', {
       baseUrl: config.baseUrl || DEFAULT_BASE_URL,
       hasOAuthConfig: !!config.oauth,
-      hasTokens: !!(config.accessToken && config.refreshToken),
+      hasTokens: !!config.accessToken,
+      hasTokenProvider: !!config.tokenProvider,
       defaultTimeout: config.defaultRequestOptions?.timeout || 30000,
-      defaultRetries: config.defaultRequestOptions?.retries || 3
+      retryPolicy: config.retryPolicy
     });
 
+    if (config.tokenProvider && config.accessToken) {
+      throw new WhoopConfigError('Pass either accessToken or tokenProvider, not both');
+    }
+
     this.baseUrl = config.baseUrl || DEFAULT_BASE_URL;
+    this.fetchImpl = config.fetch;
+    this.tokenProvider = config.tokenProvider;
+    this.tracer = new SDKTracer(config.tracing);
     this.defaultRequestOptions = {
       timeout: 30000,
-      retries: 3,
       ...config.defaultRequestOptions,
     };
+    this.retryPolicy = config.retryPolicy ?? {};
+    this.responseValidation = config.responseValidation ?? 'off';
 
     this.defaultHeaders = {
       'Accept': 'application/json',
@@ -95,59 +192,112 @@ export class WhoopHttpClient {
       'User-Agent': getUserAgent(),
     };
 
-    log('DEBUG', '📋 Default headers configured', this.defaultHeaders);
-    log('DEBUG', '⚙️ Default request options configured', this.defaultRequestOptions);
+    this.logger.debug('Default headers configured', this.defaultHeaders);
+    this.logger.debug('Default request options configured', { ...this.defaultRequestOptions });
 
     // Initialize performance optimizations
     this.cache = new WhoopCache(config.performance?.cache);
+    this.cacheEnabled = !!config.performance?.cache;
     this.deduplicator = new RequestDeduplicator(config.performance?.deduplication);
+    this.rateLimiter = config.rateLimit && 'acquire' in config.rateLimit
+      ? config.rateLimit
+      : config.rateLimit ? new WhoopRateLimiter(config.rateLimit) : undefined;
+    this.circuitBreaker = this.createCircuitBreaker(config.circuitBreaker);
     this.performanceHooks = config.performance?.hooks;
     this.slowRequestThreshold = config.performance?.slowRequestThreshold ?? 2000;
+    this.requestMetrics = new RequestMetricsCollector({ slowRequestThreshold: this.slowRequestThreshold });
+    this.metricsRecorder = config.performance?.metrics;
 
-    log('DEBUG', '🚀 Performance optimizations initialized', {
-      cacheEnabled: !!config.performance?.cache,
-      deduplicationEnabled: !!config.performance?.deduplication,
+    this.logger.debug('Performance optimizations initialized', {
+      cacheEnabled: this.cacheEnabled,
+      deduplicationEnabled: config.performance?.deduplication?.enabled !== false,
+      rateLimitEnabled: !!this.rateLimiter,
+      circuitBreakerEnabled: !!this.circuitBreaker,
       slowRequestThreshold: this.slowRequestThreshold
     });
 
     // Initialize OAuth client if config is provided
     if (config.oauth) {
-      log('INFO', '🔐 Initializing OAuth client', {
+      this.logger.info('Initializing OAuth client', {
         clientId: config.oauth.clientId?.substring(0, 8) + '...',
         redirectUri: config.oauth.redirectUri,
         scopes: config.oauth.scopes
       });
-      this.oauthClient = new WhoopOAuthClient(config.oauth);
-    } else {
-      log('WARN', '⚠️ No OAuth configuration provided - client will not be able to authenticate');
+
+      // The OAuth client shares the SDK logger, transport, tracer and metrics unless it was given its own
+      const oauthConfig: OAuthConfig = { ...config.oauth };
+      if (!oauthConfig.logger && config.logger) {
+        oauthConfig.logger = config.logger;
+        if (config.logLevel) {
+          oauthConfig.logLevel = config.logLevel;
+        }
+      }
+      if (!oauthConfig.fetch && config.fetch) {
+        oauthConfig.fetch = config.fetch;
+      }
+      if (!oauthConfig.tracing && config.tracing) {
+        oauthConfig.tracing = config.tracing;
+      }
+      if (!oauthConfig.metrics && config.performance?.metrics) {
+        oauthConfig.metrics = config.performance.metrics;
+      }
+      // Background refreshes are reported through onTokenRefresh like request-triggered ones
+      if (oauthConfig.proactiveRefresh && config.onTokenRefresh) {
+        const proactiveRefresh = oauthConfig.proactiveRefresh === true ? {} : oauthConfig.proactiveRefresh;
+        if (!proactiveRefresh.onRefresh) {
+          oauthConfig.proactiveRefresh = { ...proactiveRefresh, onRefresh: config.onTokenRefresh };
+        }
+      }
+
+      this.oauthClient = new WhoopOAuthClient(oauthConfig);
+    } else if (!config.accessToken && !config.tokenProvider) {
+      this.logger.warn('No OAuth configuration provided - client will not be able to authenticate');
     }
 
     // Set initial tokens if provided
-    if (config.accessToken && config.refreshToken) {
-      if (!this.oauthClient) {
-        const error = new WhoopAuthError('OAuth configuration required when providing tokens');
-        log('ERROR', '❌ Failed to set initial tokens - no OAuth client configured');
-        throw error;
-      }
-      
-      log('INFO', '🎫 Setting initial tokens', {
+    if (config.accessToken && this.oauthClient) {
+      this.logger.info('Setting initial tokens', {
         accessTokenLength: config.accessToken.length,
-        refreshTokenLength: config.refreshToken.length
+        refreshTokenLength: config.refreshToken?.length
       });
 
-      this.oauthClient.setTokens({
+      const now = Date.now();
+      const tokens: OAuthTokens = {
         access_token: config.accessToken,
-        refresh_token: config.refreshToken,
-        expires_in: 3600, // Default 1 hour
+        refresh_token: config.refreshToken ?? '',
+        expires_in: config.expiresAt !== undefined ? Math.max(0, Math.round((config.expiresAt - now) / 1000)) : 0,
         token_type: 'Bearer',
-        scope: 'read:profile offline',
-      });
+        scope: config.scope ?? '',
+        obtained_at: now,
+      };
+      if (config.expiresAt !== undefined) {
+        tokens.expires_at = config.expiresAt;
+      }
+
+      this.oauthClient.setTokens(tokens);
+    } else if (config.accessToken && config.refreshToken) {
+      const error = new WhoopAuthError('OAuth configuration required when providing a refresh token');
+      this.logger.error('Failed to set initial tokens - no OAuth client configured');
+      throw error;
+    } else if (config.accessToken) {
+      // Static bearer token, sent as-is and never refreshed
+      this.logger.info('Using static access token', { accessTokenLength: config.accessToken.length });
+      this.staticAccessToken = config.accessToken;
+      this.staticScope = config.scope;
     } else {
-      log('DEBUG', '🔓 No initial tokens provided - will need to authenticate via OAuth flow');
+      this.logger.debug('No initial tokens provided - will need to authenticate via OAuth flow');
     }
 
     this.onTokenRefresh = config.onTokenRefresh || undefined;
-    log('INFO', '✅ WhoopHttpClient initialized successfully');
+
+    this.interceptors = [...(config.interceptors ?? [])];
+    this.authInterceptor = createAuthInterceptor({
+      getAccessToken: (request) => this.getRequestToken(request.requestId),
+      refreshAccessToken: (request) => this.refreshAfterAuthError(request.requestId)
+    });
+    this.errorMappingInterceptor = createErrorMappingInterceptor();
+
+    this.logger.info('WhoopHttpClient initialized successfully');
   }
 
   /**
@@ -160,12 +310,102 @@ export class WhoopHttpClient {
       query?: Record<string, any>;
       body?: any;
       headers?: Record<string, string>;
+      /** Schema checked against the response body when validation is enabled */
+      schema?: ResponseSchema;
+      /** Scopes the endpoint requires, checked before sending when the granted scopes are known */
+      scopes?: WhoopScope[];
     } & RequestOptions = {}
   ): Promise<T> {
+    return (await this.requestWithResponse<T>(method, path, options)).data;
+  }
+
+  /**
+   * Make authenticated HTTP request, resolving with the response metadata
+   */
+  public async requestWithResponse<T = any>(
+    method: string,
+    path: string,
+    options: {
+      query?: Record<string, any>;
+      body?: any;
+      headers?: Record<string, string>;
+      /** Schema checked against the response body when validation is enabled */
+      schema?: ResponseSchema;
+      /** Scopes the endpoint requires, checked before sending when the granted scopes are known */
+      scopes?: WhoopScope[];
+    } & RequestOptions = {}
+  ): Promise<WhoopResponse<T>> {
+    // Fail before the round trip the API would answer with 401/403
+    const missingScopes = this.missingScopes(options.scopes ?? []);
+    if (missingScopes.length > 0) {
+      throw new WhoopScopeError(
+        `${method.toUpperCase()} ${path} requires the ${missingScopes.join(', ')} scope${missingScopes.length > 1 ? 's' : ''}, which the user has not granted`,
+        missingScopes
+      );
+    }
+
+    const startTime = Date.now();
     const requestId = Math.random().toString(36).substring(2, 15);
-    const { query, body, headers = {}, ...requestOptions } = options;
+    const url = buildUrl(this.baseUrl, path, options.query);
+    const progress: RequestProgress = { attempts: 0, cacheStatus: 'skip', deduplicated: false, rateLimitWaitMs: 0 };
+    const span = this.tracer.startSpan(`WHOOP ${method.toUpperCase()} ${getRouteTemplate(url)}`, {
+      'http.request.method': method.toUpperCase(),
+      'url.full': url,
+      'whoop.request_id': requestId
+    });
+    this.requestSpans.set(requestId, span);
+    this.runHook('onRequestStart', () => this.performanceHooks?.onRequestStart?.(url, { method: method.toUpperCase(), ...options }));
+
+    try {
+      const response = await this.executeRequest<T>(method, path, options, requestId, span, progress);
+
+      span.setAttribute('http.response.status_code', response.status);
+      span.setAttribute('whoop.attempts', response.attempts);
+      span.setAttribute('whoop.cache_status', response.cacheStatus);
+      span.setStatus({ code: SPAN_STATUS_OK });
+
+      // Joined callers report the attempts of the request they shared
+      progress.attempts = response.attempts;
+      this.recordRequestMetrics({ requestId, method, url, startTime, status: response.status, success: true }, progress);
+      return response;
+    } catch (error) {
+      const status = isWhoopAPIError(error) ? error.status : undefined;
+      if (status !== undefined) {
+        span.setAttribute('http.response.status_code', status);
+      }
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({ code: SPAN_STATUS_ERROR, message: error instanceof Error ? error.message : String(error) });
+
+      this.recordRequestMetrics({ requestId, method, url, startTime, status, success: false }, progress);
+      throw error;
+    } finally {
+      span.end();
+      this.requestSpans.delete(requestId);
+      this.requestTokens.delete(requestId);
+    }
+  }
+
+  /**
+   * Run a request through the cache, deduplication and retry layers
+   */
+  private async executeRequest<T>(
+    method: string,
+    path: string,
+    options: {
+      query?: Record<string, any>;
+      body?: any;
+      headers?: Record<string, string>;
+      schema?: ResponseSchema;
+    } & RequestOptions,
+    requestId: string,
+    span: SDKSpan,
+    progress: RequestProgress
+  ): Promise<WhoopResponse<T>> {
+    const startTime = Date.now();
+    const { query, body, headers = {}, schema, ...requestOptions } = options;
+    const logger = this.logger.child({ requestId });
     
-    log('INFO', `📤 Starting API request [${requestId}]`, {
+    logger.info('Starting API request', {
       method: method.toUpperCase(),
       path,
       query,
@@ -180,176 +420,536 @@ export class WhoopHttpClient {
     };
 
     const url = buildUrl(this.baseUrl, path, query);
+    this.metrics.totalRequests++;
     
-    log('DEBUG', `🔗 Built request URL [${requestId}]`, { url });
-    
-    const retryOptions: {
-      maxAttempts?: number;
-      signal?: AbortSignal;
-    } = {
-      maxAttempts: finalOptions.retries || 1,
+    logger.debug('Built request URL', { url });
+
+    // Resolve the token once, so a token provider is called once per request and
+    // GET requests are cached and coalesced per user under the token they are sent with
+    const accessToken = await this.getAccessToken();
+    this.requestTokens.set(requestId, accessToken);
+    const isGet = method.toUpperCase() === 'GET';
+    const userScope = isGet ? accessToken ?? 'anonymous' : undefined;
+
+    // Only GET responses are cached, and only when caching is configured
+    const cacheStatus: PerformanceMetrics['cacheStatus'] =
+      this.cacheEnabled && isGet && !finalOptions.skipCache ? 'miss' : 'skip';
+    let cacheKey: string | undefined;
+    progress.cacheStatus = cacheStatus;
+
+    if (cacheStatus === 'miss') {
+      const key = generateCacheKey('GET', url, { user: userScope });
+      const cached = this.cache.get(key);
+      cacheKey = key;
+
+      if (cached !== undefined) {
+        this.metrics.cachedRequests++;
+        logger.info('Cache hit', { url });
+
+        span.addEvent('cache.hit');
+        progress.cacheStatus = 'hit';
+        this.runHook('onCacheHit', () => this.performanceHooks?.onCacheHit?.(key, cached));
+
+        return {
+          data: cached as T,
+          status: 200,
+          headers: {},
+          requestId,
+          url,
+          attempts: 0,
+          durationMs: Date.now() - startTime,
+          cacheStatus: 'hit'
+        };
+      }
+
+      logger.debug('Cache miss', { url });
+    }
+
+    const runRequest = async (signal?: AbortSignal): Promise<AttemptResult<T> & { attempts: number }> => {
+      const attemptOptions: RequestOptions = { ...finalOptions };
+      const retryPolicy = this.resolveRetryPolicy(requestOptions);
+      const retryOptions: RetryPolicy & { signal?: AbortSignal } = {
+        ...retryPolicy,
+        onRetry: async (context) => {
+          span.addEvent('retry', {
+            'whoop.attempt': context.attempt,
+            'whoop.retry_delay_ms': Math.round(context.delayMs),
+            'error.type': context.error instanceof Error ? context.error.name : typeof context.error
+          });
+          logger.warn('Retrying request', {
+            attempt: context.attempt,
+            delayMs: Math.round(context.delayMs),
+            error: context.error instanceof Error ? context.error.message : String(context.error)
+          });
+          await retryPolicy.onRetry?.(context);
+        }
+      };
+
+      if (signal) {
+        attemptOptions.signal = signal;
+        retryOptions.signal = signal;
+        logger.debug('Abort signal configured');
+      } else {
+        delete attemptOptions.signal;
+      }
+
+      logger.debug('Retry configuration', {
+        maxRetries: retryPolicy.maxRetries,
+        baseDelayMs: retryPolicy.baseDelayMs,
+        maxDelayMs: retryPolicy.maxDelayMs,
+        jitter: retryPolicy.jitter
+      });
+
+      let attempts = 0;
+      const result = await withRetry(
+        async (attempt) => {
+          attempts = attempt;
+          progress.attempts = attempt;
+          logger.debug(`Attempt ${attempt}/${(retryPolicy.maxRetries ?? DEFAULT_RETRY_POLICY.maxRetries) + 1}`);
+          return this.performRequest<T>(method, url, body, headers, attemptOptions, {
+            requestId,
+            cacheStatus,
+            retryCount: attempt - 1,
+            span,
+            progress
+          });
+        },
+        retryOptions
+      );
+
+      // Validate once per network response, before it is cached or shared with joined callers
+      if (schema) {
+        this.validateResponseBody(result.data, schema, finalOptions.responseValidation, result.url, logger);
+      }
+
+      return { ...result, attempts };
     };
-    
-    if (finalOptions.signal) {
-      retryOptions.signal = finalOptions.signal;
-      log('DEBUG', `⏹️ Abort signal configured [${requestId}]`);
+
+    let result: AttemptResult<T> & { attempts: number };
+    if (isGet) {
+      // Identical in-flight GETs share one request; each caller keeps its own abort signal
+      const dedupOptions: { signal?: AbortSignal; onJoin: () => void } = {
+        onJoin: () => {
+          span.addEvent('dedup.join');
+          progress.deduplicated = true;
+          this.metrics.dedupedRequests++;
+          logger.info('Joined in-flight request', { url });
+        }
+      };
+      if (finalOptions.signal) {
+        dedupOptions.signal = finalOptions.signal;
+      }
+
+      result = await this.deduplicator.execute(
+        generateDedupKey('GET', url, { user: userScope }),
+        runRequest,
+        dedupOptions
+      );
+    } else {
+      result = await runRequest(finalOptions.signal);
     }
-    
-    log('DEBUG', `🔄 Retry configuration [${requestId}]`, retryOptions);
-    
-    let attemptNumber = 0;
-    return withRetry(
-      async () => {
-        attemptNumber++;
-        log('DEBUG', `🎯 Attempt ${attemptNumber}/${retryOptions.maxAttempts || 1} [${requestId}]`);
-        return this.performRequest<T>(method, url, body, headers, finalOptions, requestId);
-      },
-      retryOptions
-    );
+
+    if (cacheKey) {
+      this.cache.set(cacheKey, result.data, finalOptions.cacheTtl);
+      logger.debug('Response cached', { ttl: finalOptions.cacheTtl });
+    }
+
+    // Callers that joined an in-flight request report the request that actually ran
+    return {
+      ...result,
+      durationMs: Date.now() - startTime,
+      cacheStatus
+    };
   }
 
   /**
-   * Perform the actual HTTP request
+   * Check a response body against its schema
+   * Strict mode throws, lenient mode logs the mismatches and passes the body through
    */
-  private async performRequest<T>(
-    method: string,
+  private validateResponseBody(
+    data: unknown,
+    schema: ResponseSchema,
+    mode: ResponseValidationMode | undefined,
     url: string,
-    body: any,
-    headers: Record<string, string>,
-    options: RequestOptions,
-    requestId: string
-  ): Promise<T> {
-    const startTime = Date.now();
-    
-    log('DEBUG', `🔑 Getting access token [${requestId}]`);
-    
-    // Get access token
-    const accessToken = await this.getAccessToken();
-    
-    if (accessToken) {
-      log('DEBUG', `✅ Access token retrieved [${requestId}]`, {
-        tokenLength: accessToken.length,
-        tokenPrefix: accessToken.substring(0, 10) + '...'
-      });
-    } else {
-      log('WARN', `⚠️ No access token available [${requestId}] - request will be unauthenticated`);
+    logger: SDKLogger
+  ): void {
+    const validationMode = mode ?? this.responseValidation;
+    if (validationMode === 'off') {
+      return;
+    }
+
+    const issues = validateResponse(data, schema);
+    if (issues.length === 0) {
+      return;
     }
-    
-    // Prepare headers
-    const requestHeaders = {
-      ...this.defaultHeaders,
-      ...headers,
-    };
 
-    if (accessToken) {
-      requestHeaders['Authorization'] = `Bearer ${accessToken}`;
+    const summary = issues.slice(0, 5).map(issue => `${issue.path}: ${issue.message}`).join('; ');
+    const more = issues.length > 5 ? ` (and ${issues.length - 5} more)` : '';
+
+    if (validationMode === 'strict') {
+      throw new WhoopResponseValidationError(
+        `Response from ${new URL(url).pathname} does not match the expected schema: ${summary}${more}`,
+        issues,
+        url
+      );
     }
 
-    log('DEBUG', `📋 Final request headers [${requestId}]`, {
-      ...requestHeaders,
-      Authorization: requestHeaders.Authorization ? 
-        `Bearer ${requestHeaders.Authorization.substring(7, 17)}...` : 
-        undefined
+    logger.warn('Response does not match the expected schema', { url, issues });
+  }
+
+  /**
+   * Use a shared circuit breaker as-is, or create one that logs state changes
+   */
+  private createCircuitBreaker(config: WhoopSDKConfig['circuitBreaker']): CircuitBreaker | undefined {
+    if (!config) {
+      return undefined;
+    }
+    if ('getCircuitKey' in config) {
+      return config;
+    }
+
+    return new WhoopCircuitBreaker({
+      ...config,
+      onStateChange: (event) => {
+        const level = event.to === 'open' ? 'warn' : 'info';
+        this.logger[level]('Circuit breaker state changed', { ...event });
+        config.onStateChange?.(event);
+      }
     });
+  }
+
+  /**
+   * Merge the global retry policy with per-request overrides
+   * Explicit retry options win over a retry policy at the same level
+   */
+  private resolveRetryPolicy(requestOptions: RequestOptions): RetryPolicy {
+    const fromOptions = (options: RequestOptions): RetryPolicy => {
+      const policy: RetryPolicy = { ...options.retryPolicy };
+      if (options.retries !== undefined) {
+        policy.maxRetries = Math.max(0, options.retries - 1);
+      }
+      if (options.maxRetries !== undefined) {
+        policy.maxRetries = options.maxRetries;
+      }
+      if (options.retryDelay !== undefined) {
+        policy.baseDelayMs = options.retryDelay;
+      }
+      return policy;
+    };
+
+    return {
+      ...this.retryPolicy,
+      ...fromOptions(this.defaultRequestOptions),
+      ...fromOptions(requestOptions)
+    };
+  }
+
+  /**
+   * Perform the actual HTTP request through the interceptor chain
+   */
+  private async performRequest<T>(
+    method: string,
+    url: string,
+    body: any,
+    headers: Record<string, string>,
+    options: RequestOptions,
+    context: RequestContext
+  ): Promise<AttemptResult<T>> {
+    const { requestId } = context;
+    const logger = this.logger.child({ requestId });
 
     // Prepare request body
     let requestBody: string | undefined;
     if (body) {
       if (method.toUpperCase() === 'GET') {
         const error = new Error('GET requests cannot have a body');
-        log('ERROR', `❌ Invalid request [${requestId}] - GET with body`, { method, body });
+        logger.error('Invalid request - GET with body', { method });
         throw error;
       }
       requestBody = JSON.stringify(body);
-      log('DEBUG', `📦 Request body prepared [${requestId}]`, {
-        bodySize: requestBody.length,
-        bodyPreview: requestBody.substring(0, 200) + (requestBody.length > 200 ? '...' : '')
+      logger.debug('Request body prepared', {
+        bodySize: requestBody.length
       });
     }
 
+    // Built-in auth runs first so user interceptors see the final headers;
+    // error mapping runs last so user interceptors can rewrite raw error responses
+    const chain = [this.authInterceptor, ...this.interceptors, this.errorMappingInterceptor];
+    const state: Record<string, unknown> = {};
+
+    for (let replays = 0; ; replays++) {
+      let request: InterceptedRequest = {
+        requestId,
+        method: method.toUpperCase(),
+        url,
+        headers: { ...this.defaultHeaders, ...headers },
+        replays,
+        state
+      };
+      if (requestBody) {
+        request.body = requestBody;
+      }
+
+      let replay = false;
+
+      try {
+        for (const interceptor of chain) {
+          const result = await interceptor.onRequest?.(request);
+          if (isInterceptorResponse(result)) {
+            logger.debug('Request answered by interceptor', { interceptor: interceptor.name });
+            return { data: result.body as T, status: 200, headers: {}, url: request.url, requestId };
+          }
+          if (result) {
+            request = result;
+          }
+        }
+
+        let response = await this.dispatchRequest(request, options, context, logger);
+
+        for (const interceptor of chain) {
+          const result = await interceptor.onResponse?.(response);
+          if (isInterceptorRetry(result) && replays < MAX_INTERCEPTOR_REPLAYS) {
+            replay = true;
+            break;
+          }
+          if (result && !isInterceptorRetry(result)) {
+            response = result;
+          }
+        }
+
+        if (!replay) {
+          logger.info('Request completed successfully');
+          return {
+            data: response.body as T,
+            status: response.status,
+            headers: headersToObject(response.headers),
+            url: request.url,
+            requestId
+          };
+        }
+      } catch (error) {
+        let currentError = error;
+
+        for (const interceptor of chain) {
+          const result = await interceptor.onError?.(currentError, request);
+          if (isInterceptorResponse(result)) {
+            logger.debug('Error recovered by interceptor', { interceptor: interceptor.name });
+            return { data: result.body as T, status: 200, headers: {}, url: request.url, requestId };
+          }
+          if (isInterceptorRetry(result) && replays < MAX_INTERCEPTOR_REPLAYS) {
+            replay = true;
+            break;
+          }
+          if (result instanceof Error) {
+            currentError = result;
+          }
+        }
+
+        if (!replay) {
+          throw currentError;
+        }
+      }
+
+      logger.info('Replaying request', { replays: replays + 1 });
+    }
+  }
+
+  /**
+   * Send a request through the circuit breaker and rate limiter
+   */
+  private async dispatchRequest(
+    request: InterceptedRequest,
+    options: RequestOptions,
+    context: RequestContext,
+    logger: SDKLogger
+  ): Promise<InterceptedResponse> {
+    const breaker = this.circuitBreaker;
+    const circuit = breaker?.getCircuitKey(request.method, request.url);
+
+    // Fail fast before spending rate limit budget on a call that is paused
+    if (breaker && circuit) {
+      breaker.acquire(circuit);
+    }
+
+    let sent = false;
+    try {
+      if (this.rateLimiter) {
+        // Budget is tracked per access token so each user gets their own quota
+        const waitedMs = await this.rateLimiter.acquire(request.headers['Authorization'], options.signal);
+        if (waitedMs > 0) {
+          context.span.addEvent('rate_limit.wait', { 'whoop.wait_ms': waitedMs });
+          context.progress.rateLimitWaitMs += waitedMs;
+          logger.debug('Request delayed by client-side rate limit', { waitedMs });
+        }
+      }
+
+      this.tracer.inject(context.span, request.headers);
+
+      sent = true;
+      const response = await this.sendRequest(request, options, context, logger);
+      if (breaker && circuit) {
+        breaker.record(circuit, { status: response.status });
+      }
+      return response;
+    } catch (error) {
+      if (breaker && circuit) {
+        // Requests that never reached the API, or were cancelled by the caller, say nothing about its health
+        if (sent && !options.signal?.aborted) {
+          breaker.record(circuit, { error });
+        } else {
+          breaker.release(circuit);
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send a request over the network and parse the response
+   */
+  private async sendRequest(
+    request: InterceptedRequest,
+    options: RequestOptions,
+    context: RequestContext,
+    logger: SDKLogger
+  ): Promise<InterceptedResponse> {
+    const startTime = Date.now();
+
+    if (!request.headers['Authorization']) {
+      logger.warn('No access token available - request will be unauthenticated');
+    }
+
+    logger.debug('Final request headers', request.headers);
+
     // Create abort signal with timeout
-    const signals: (AbortSignal | undefined)[] = [options.signal];
-    
-    if (options.timeout) {
-      signals.push(createTimeoutSignal(options.timeout));
-      log('DEBUG', `⏰ Request timeout set [${requestId}]`, { timeout: options.timeout });
+    const timeout = options.timeout ? createRequestTimeout(options.timeout) : undefined;
+    if (timeout) {
+      logger.debug('Request timeout set', { timeout: options.timeout });
     }
 
-    const signal = combineSignals(...signals);
+    const signal = combineSignals(options.signal, timeout?.signal);
+    const fetchImpl = resolveFetch(this.fetchImpl);
 
+    let response: Response;
     try {
       const fetchOptions: RequestInit = {
-        method: method.toUpperCase(),
-        headers: requestHeaders,
+        method: request.method,
+        headers: request.headers,
         signal,
       };
       
-      if (requestBody) {
-        fetchOptions.body = requestBody;
+      if (request.body) {
+        fetchOptions.body = request.body;
       }
       
-      log('INFO', `🚀 Sending HTTP request [${requestId}]`, {
+      logger.info('Sending HTTP request', {
         method: fetchOptions.method,
-        url,
-        headersCount: Object.keys(requestHeaders).length,
-        hasBody: !!requestBody,
+        url: request.url,
+        headersCount: Object.keys(request.headers).length,
+        hasBody: !!request.body,
         timeout: options.timeout
       });
 
-      const response = await fetch(url, fetchOptions);
-      
-      const duration = Date.now() - startTime;
-      
-      log('INFO', `📥 HTTP response received [${requestId}]`, {
-        status: response.status,
-        statusText: response.statusText,
-        duration: `${duration}ms`,
-        contentType: response.headers.get('content-type'),
-        contentLength: response.headers.get('content-length')
-      });
-
-      if (this.performanceHooks?.onRequestEnd) {
-        this.performanceHooks.onRequestEnd({
-          startTime,
-          endTime: Date.now(),
-          duration,
-          cacheStatus: 'miss', // TODO: Implement cache status tracking
-          retryCount: 0,
-          errorCount: 0
-        });
-      }
-
-      return await this.handleResponse<T>(response, requestId);
+      response = await fetchImpl(request.url, fetchOptions);
     } catch (error) {
       const duration = Date.now() - startTime;
       
-      log('ERROR', `💥 HTTP request failed [${requestId}]`, {
+      logger.error('HTTP request failed', {
         error: error instanceof Error ? error.message : String(error),
         duration: `${duration}ms`,
-        url,
-        method: method.toUpperCase()
+        url: request.url,
+        method: request.method
       });
 
-      if (signal.aborted) {
-        const timeoutError = new WhoopTimeoutError('Request timeout');
-        log('ERROR', `⏰ Request timeout [${requestId}]`, { timeout: options.timeout });
-        throw timeoutError;
+      timeout?.clear();
+      const abortError = this.getAbortError(options, timeout, 'headers', logger);
+      if (abortError) {
+        throw abortError;
       }
       
       const networkError = ErrorFactory.fromNetworkError(error as Error);
-      log('ERROR', `🌐 Network error [${requestId}]`, {
+      logger.error('Network error', {
         errorType: networkError.constructor.name,
         message: networkError.message
       });
       throw networkError;
     }
+
+    const duration = Date.now() - startTime;
+    
+    logger.info('HTTP response received', {
+      status: response.status,
+      statusText: response.statusText,
+      duration: `${duration}ms`,
+      contentType: response.headers.get('content-type'),
+      contentLength: response.headers.get('content-length')
+    });
+
+    const rateLimitState = parseRateLimitHeaders(response.headers);
+    if (rateLimitState) {
+      this.rateLimitState = rateLimitState;
+      logger.debug('Rate limit headers received', { ...rateLimitState });
+    }
+
+    let responseBody: any;
+    try {
+      responseBody = await this.parseResponseBody(response, logger, signal);
+    } catch (error) {
+      throw this.getAbortError(options, timeout, 'body', logger) ?? error;
+    } finally {
+      timeout?.clear();
+    }
+
+    const responseSize = getResponseSize(response.headers.get('content-length'), responseBody);
+    if (responseSize !== undefined) {
+      context.progress.responseSize = responseSize;
+    }
+
+    if (!response.ok) {
+      logger.error('HTTP error response', {
+        status: response.status,
+        statusText: response.statusText,
+        responseBody: responseBody
+      });
+    }
+
+    return {
+      request,
+      ok: response.ok,
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+      body: responseBody
+    };
   }
 
   /**
-   * Handle HTTP response
+   * Explain why a request's signal fired: caller cancellation or the request timeout
    */
-  private async handleResponse<T>(response: Response, requestId: string): Promise<T> {
-    log('DEBUG', `📖 Processing response [${requestId}]`, {
+  private getAbortError(
+    options: RequestOptions,
+    timeout: { timedOut: () => boolean } | undefined,
+    phase: TimeoutPhase,
+    logger: SDKLogger
+  ): WhoopAbortError | WhoopTimeoutError | undefined {
+    if (options.signal?.aborted) {
+      logger.info('Request cancelled by caller', { phase });
+      return new WhoopAbortError('Request aborted', options.signal.reason);
+    }
+
+    if (timeout?.timedOut()) {
+      logger.error('Request timeout', { timeout: options.timeout, phase });
+      return ErrorFactory.fromTimeout(options.timeout, phase);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Parse HTTP response body
+   */
+  private async parseResponseBody(response: Response, logger: SDKLogger, signal?: AbortSignal): Promise<any> {
+    logger.debug('Processing response', {
       status: response.status,
       statusText: response.statusText,
       contentType: response.headers.get('content-type')
@@ -361,95 +961,136 @@ export class WhoopHttpClient {
       const contentType = response.headers.get('content-type');
       if (contentType?.includes('application/json')) {
         responseBody = await response.json();
-        log('DEBUG', `📄 JSON response parsed [${requestId}]`, {
+        logger.debug('JSON response parsed', {
           bodyKeys: typeof responseBody === 'object' && responseBody ? Object.keys(responseBody) : [],
           bodySize: JSON.stringify(responseBody).length
         });
       } else {
         responseBody = await response.text();
-        log('DEBUG', `📄 Text response parsed [${requestId}]`, {
-          textLength: responseBody.length,
-          textPreview: responseBody.substring(0, 200) + (responseBody.length > 200 ? '...' : '')
+        logger.debug('Text response parsed', {
+          textLength: responseBody.length
         });
       }
     } catch (parseError) {
-      log('WARN', `⚠️ Failed to parse response body [${requestId}]`, {
+      // An aborted body read is not a malformed body
+      if (signal?.aborted) {
+        throw parseError;
+      }
+
+      logger.warn('Failed to parse response body', {
         error: parseError instanceof Error ? parseError.message : String(parseError)
       });
       responseBody = null;
     }
 
-    if (!response.ok) {
-      log('ERROR', `❌ HTTP error response [${requestId}]`, {
-        status: response.status,
-        statusText: response.statusText,
-        responseBody: responseBody
-      });
+    return responseBody;
+  }
+
+  /**
+   * Refresh tokens after the API rejected the access token
+   * Returns true when the request should be replayed with the new token
+   */
+  private async refreshAfterAuthError(requestId: string): Promise<boolean> {
+    const span = this.requestSpans.get(requestId);
 
-      const error = ErrorFactory.fromHttpStatus(response.status, responseBody);
+    // Ask the token service for a new token rather than its cached one
+    if (this.tokenProvider) {
+      this.logger.warn('Authentication error detected, requesting a new token from the token provider');
+      try {
+        // Replay with the forced token, asking again would return the rejected one from a cache
+        this.requestTokens.set(requestId, await this.getProviderToken(true));
+        span?.addEvent('token.refresh', { 'whoop.outcome': 'success' });
+        return true;
+      } catch {
+        span?.addEvent('token.refresh', { 'whoop.outcome': 'failure' });
+        return false;
+      }
+    }
+
+    if (!this.oauthClient) {
+      return false;
+    }
+
+    // Without a refresh token the tokens stay in place and the 401 reaches the caller
+    if (!this.oauthClient.getTokens()?.refresh_token) {
+      this.logger.warn('Authentication error detected, no refresh token available to refresh with');
+      span?.addEvent('token.refresh', { 'whoop.outcome': 'skipped' });
+      return false;
+    }
+
+    this.logger.warn('Authentication error detected, attempting token refresh');
+    
+    try {
+      const newTokens = await this.oauthClient.refreshAccessToken();
+      this.requestTokens.set(requestId, newTokens.access_token);
       
-      // If it's an auth error and we have OAuth client, try to refresh token once
-      if (isAuthError(error) && this.oauthClient && error.status === 401) {
-        log('WARN', `🔄 Authentication error detected, attempting token refresh [${requestId}]`);
-        
-        try {
-          const newTokens = await this.oauthClient.refreshAccessToken();
-          
-          log('INFO', `✅ Token refresh successful [${requestId}]`, {
-            newTokenExpiry: newTokens.expires_in,
-            tokenType: newTokens.token_type
-          });
-          
-          // Notify about token refresh
-          if (this.onTokenRefresh) {
-            await this.onTokenRefresh(newTokens);
-          }
-          
-          // Don't retry here - let the retry mechanism handle it
-        } catch (refreshError) {
-          log('ERROR', `💥 Token refresh failed [${requestId}]`, {
-            error: refreshError instanceof Error ? refreshError.message : String(refreshError)
-          });
-          
-          // If refresh fails, clear tokens and throw original error
-          this.oauthClient.clearTokens();
-          log('INFO', `🗑️ Cleared invalid tokens [${requestId}]`);
-          throw error;
-        }
+      span?.addEvent('token.refresh', { 'whoop.outcome': 'success' });
+      this.logger.info('Token refresh successful', {
+        newTokenExpiry: newTokens.expires_in,
+        tokenType: newTokens.token_type
+      });
+      
+      // Notify about token refresh
+      if (this.onTokenRefresh) {
+        await this.onTokenRefresh(newTokens);
       }
       
-      throw error;
+      return true;
+    } catch (refreshError) {
+      span?.addEvent('token.refresh', { 'whoop.outcome': 'failure' });
+      this.logger.error('Token refresh failed', {
+        error: refreshError instanceof Error ? refreshError.message : String(refreshError)
+      });
+      
+      // Only a rejected grant invalidates the tokens; after a network error, timeout or
+      // outage the stored refresh token still works, so keep it and surface the original 401
+      if (refreshError instanceof WhoopAuthError) {
+        this.oauthClient.clearTokens();
+        this.logger.info('Cleared invalid tokens');
+      }
+      return false;
     }
+  }
 
-    log('INFO', `✅ Request completed successfully [${requestId}]`);
-    return responseBody as T;
+  /**
+   * Access token resolved for a request, falling back to a fresh lookup
+   */
+  private async getRequestToken(requestId: string): Promise<string | undefined> {
+    return this.requestTokens.has(requestId) ? this.requestTokens.get(requestId) : this.getAccessToken();
   }
 
   /**
    * Get valid access token
    */
   private async getAccessToken(): Promise<string | undefined> {
+    if (this.tokenProvider) {
+      return this.getProviderToken(false);
+    }
+
+    if (this.staticAccessToken) {
+      return this.staticAccessToken;
+    }
+
     if (!this.oauthClient) {
-      log('DEBUG', '🔓 No OAuth client configured - returning undefined access token');
+      this.logger.debug('No OAuth client configured - returning undefined access token');
       return undefined;
     }
 
     try {
-      log('DEBUG', '🔑 Requesting valid access token from OAuth client');
+      this.logger.debug('Requesting valid access token from OAuth client');
       const token = await this.oauthClient.getValidAccessToken();
       
       if (token) {
-        log('DEBUG', '✅ Valid access token obtained', {
-          tokenLength: token.length,
-          tokenPrefix: token.substring(0, 10) + '...'
+        this.logger.debug('Valid access token obtained', {
+          tokenLength: token.length
         });
       } else {
-        log('WARN', '⚠️ OAuth client returned undefined access token');
+        this.logger.warn('OAuth client returned undefined access token');
       }
       
       return token;
     } catch (error) {
-      log('ERROR', '💥 Failed to get valid access token', {
+      this.logger.error('Failed to get valid access token', {
         error: error instanceof Error ? error.message : String(error)
       });
       
@@ -459,6 +1100,66 @@ export class WhoopHttpClient {
     }
   }
 
+  /**
+   * Get a token from the token provider
+   * Unlike OAuth tokens, a failing provider fails the request rather than sending it unauthenticated
+   */
+  private async getProviderToken(forceRefresh: boolean): Promise<string> {
+    try {
+      const token = await this.tokenProvider!({ forceRefresh });
+      if (!token) {
+        throw new Error('Token provider returned no token');
+      }
+      this.lastProviderToken = token;
+      return token;
+    } catch (error) {
+      this.logger.error('Token provider failed', {
+        forceRefresh,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw new WhoopAuthError(
+        `Token provider failed: ${error instanceof Error ? error.message : String(error)}`,
+        undefined,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Add an interceptor to the end of the chain
+   * Returns a function that removes it again
+   */
+  public addInterceptor(interceptor: WhoopInterceptor): () => void {
+    this.interceptors.push(interceptor);
+    return () => this.removeInterceptor(interceptor);
+  }
+
+  /**
+   * Remove a previously added interceptor
+   */
+  public removeInterceptor(interceptor: WhoopInterceptor): boolean {
+    const index = this.interceptors.indexOf(interceptor);
+    if (index === -1) {
+      return false;
+    }
+    this.interceptors.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Create a view of this client that reports the metadata of every successful request
+   * The view shares tokens, caches and metrics with this client
+   */
+  public withResponseListener(listener: (response: WhoopResponse<unknown>) => void): WhoopHttpClient {
+    const request: WhoopHttpClient['request'] = async (method, path, options = {}) => {
+      const response = await this.requestWithResponse(method, path, options);
+      listener(response);
+      return response.data;
+    };
+
+    return Object.create(this, { request: { value: request } });
+  }
+
   /**
    * GET request
    */
@@ -467,6 +1168,10 @@ export class WhoopHttpClient {
     options: {
       query?: Record<string, any>;
       headers?: Record<string, string>;
+      /** Schema checked against the response body when validation is enabled */
+      schema?: ResponseSchema;
+      /** Scopes the endpoint requires, checked before sending when the granted scopes are known */
+      scopes?: WhoopScope[];
     } & RequestOptions = {}
   ): Promise<T> {
     return this.request<T>('GET', path, options);
@@ -481,6 +1186,10 @@ export class WhoopHttpClient {
       body?: any;
       query?: Record<string, any>;
       headers?: Record<string, string>;
+      /** Schema checked against the response body when validation is enabled */
+      schema?: ResponseSchema;
+      /** Scopes the endpoint requires, checked before sending when the granted scopes are known */
+      scopes?: WhoopScope[];
     } & RequestOptions = {}
   ): Promise<T> {
     return this.request<T>('POST', path, options);
@@ -495,6 +1204,10 @@ export class WhoopHttpClient {
       body?: any;
       query?: Record<string, any>;
       headers?: Record<string, string>;
+      /** Schema checked against the response body when validation is enabled */
+      schema?: ResponseSchema;
+      /** Scopes the endpoint requires, checked before sending when the granted scopes are known */
+      scopes?: WhoopScope[];
     } & RequestOptions = {}
   ): Promise<T> {
     return this.request<T>('PUT', path, options);
@@ -508,6 +1221,10 @@ export class WhoopHttpClient {
     options: {
       query?: Record<string, any>;
       headers?: Record<string, string>;
+      /** Schema checked against the response body when validation is enabled */
+      schema?: ResponseSchema;
+      /** Scopes the endpoint requires, checked before sending when the granted scopes are known */
+      scopes?: WhoopScope[];
     } & RequestOptions = {}
   ): Promise<T> {
     return this.request<T>('DELETE', path, options);
@@ -544,22 +1261,136 @@ export class WhoopHttpClient {
     this.oauthClient?.clearTokens();
   }
 
+  /**
+   * Stop background work such as proactive token refresh
+   */
+  public dispose(): void {
+    this.oauthClient?.dispose();
+  }
+
+  /**
+   * Get the SDK logger, optionally scoped to a component
+   */
+  public getLogger(component?: string): SDKLogger {
+    return component ? this.logger.child({ component }) : this.logger;
+  }
+
+  /**
+   * Scopes granted to the current access token, undefined when unknown (token providers, static tokens without a scope)
+   */
+  public getGrantedScopes(): WhoopScope[] | undefined {
+    const scope = this.tokenProvider
+      ? undefined
+      : this.staticAccessToken ? this.staticScope : this.getTokens()?.scope;
+    return scope ? parseScopes(scope) : undefined;
+  }
+
+  /**
+   * Check whether a scope was granted, scopes are assumed granted while they are unknown
+   */
+  public hasScope(scope: WhoopScope): boolean {
+    return this.missingScopes([scope]).length === 0;
+  }
+
+  /**
+   * Scopes from the list that were not granted
+   */
+  public missingScopes(scopes: WhoopScope[]): WhoopScope[] {
+    const granted = this.getGrantedScopes();
+    return granted ? getMissingScopes(scopes, granted) : [];
+  }
+
   /**
    * Check if client is authenticated
    */
   public isAuthenticated(): boolean {
+    if (this.tokenProvider || this.staticAccessToken) {
+      return true;
+    }
+
     const tokens = this.getTokens();
     return tokens !== undefined && !this.oauthClient?.isTokenExpired(tokens);
   }
 
+  /**
+   * Record a completed request and notify the performance hooks
+   */
+  private recordRequestMetrics(
+    request: { requestId: string; method: string; url: string; startTime: number; status: number | undefined; success: boolean },
+    progress: RequestProgress
+  ): void {
+    const endTime = Date.now();
+    const metrics: PerformanceMetrics = {
+      requestId: request.requestId,
+      method: request.method.toUpperCase(),
+      url: request.url,
+      route: getRouteTemplate(request.url),
+      success: request.success,
+      startTime: request.startTime,
+      endTime,
+      duration: endTime - request.startTime,
+      cacheStatus: progress.cacheStatus,
+      retryCount: Math.max(0, progress.attempts - 1),
+      // Every attempt before the last one failed, and so did the last one when the request failed
+      errorCount: request.success ? Math.max(0, progress.attempts - 1) : Math.max(1, progress.attempts),
+      deduplicated: progress.deduplicated,
+      rateLimitWaitMs: progress.rateLimitWaitMs
+    };
+
+    if (request.status !== undefined) {
+      metrics.status = request.status;
+    }
+    if (progress.responseSize !== undefined) {
+      metrics.responseSize = progress.responseSize;
+    }
+
+    this.requestMetrics.record(metrics);
+    this.runHook('metrics', () => this.metricsRecorder?.recordRequest(metrics));
+    this.runHook('onRequestEnd', () => this.performanceHooks?.onRequestEnd?.(metrics));
+
+    if (this.requestMetrics.isSlow(metrics)) {
+      this.logger.warn('Slow request', { url: metrics.url, duration: `${metrics.duration}ms` });
+      this.runHook('onSlowRequest', () => this.performanceHooks?.onSlowRequest?.(metrics));
+    }
+  }
+
+  /**
+   * Call a performance hook or the metrics recorder, a faulty listener must never break API requests
+   */
+  private runHook(name: keyof PerformanceHooks | 'metrics', hook: () => void): void {
+    try {
+      hook();
+    } catch (error) {
+      this.logger.warn('Performance hook failed', {
+        hook: name,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Get the most recent rate limit state reported by the API
+   */
+  public getRateLimitState(): RateLimitState | undefined {
+    return this.rateLimitState ? { ...this.rateLimitState } : undefined;
+  }
+
   /**
    * Get comprehensive performance statistics
    */
   public getPerformanceStats() {
+    // Same key the request path budgets under, the Authorization header
+    const accessToken = this.tokenProvider
+      ? this.lastProviderToken
+      : this.staticAccessToken ?? this.getTokens()?.access_token;
+
     return {
       ...this.metrics,
+      ...this.requestMetrics.getStats(),
       cache: this.cache.getStats(),
-      deduplication: this.deduplicator.getStats()
+      deduplication: this.deduplicator.getStats(),
+      rateLimit: this.rateLimiter?.getStats(accessToken ? `Bearer ${accessToken}` : undefined),
+      circuitBreaker: this.circuitBreaker?.getStats()
     };
   }
 
@@ -570,12 +1401,11 @@ export class WhoopHttpClient {
     this.cache.clear();
     this.deduplicator.clear();
     
+    this.requestMetrics.reset();
     this.metrics = {
       totalRequests: 0,
       cachedRequests: 0,
-      dedupedRequests: 0,
-      avgResponseTime: 0,
-      slowRequests: 0
+      dedupedRequests: 0
     };
   }
 } 
\ No newline at end of file
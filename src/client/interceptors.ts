@@ -0,0 +1,91 @@
+/**
+ * HTTP Client Interceptors
+ * Built-in interceptors and helpers for the request/response pipeline
+ */
+
+import type {
+  InterceptedRequest,
+  InterceptorResponseAction,
+  InterceptorRetryAction,
+  WhoopInterceptor
+} from '../types';
+import { ErrorFactory, isAuthError } from '../errors/factory';
+import { parseRateLimitHeaders } from '../utils/headers';
+
+/**
+ * Resolve a request with the given body, skipping the network or the error
+ */
+export function respondWith(body: unknown): InterceptorResponseAction {
+  return { action: 'respond', body };
+}
+
+/**
+ * Replay a request from the start of the interceptor chain
+ */
+export function retryRequest(): InterceptorRetryAction {
+  return { action: 'retry' };
+}
+
+/**
+ * Type guard for interceptor short-circuit responses
+ */
+export function isInterceptorResponse(value: unknown): value is InterceptorResponseAction {
+  return typeof value === 'object' && value !== null && (value as { action?: unknown }).action === 'respond';
+}
+
+/**
+ * Type guard for interceptor replay requests
+ */
+export function isInterceptorRetry(value: unknown): value is InterceptorRetryAction {
+  return typeof value === 'object' && value !== null && (value as { action?: unknown }).action === 'retry';
+}
+
+/**
+ * Attach the bearer token and refresh it once when the API answers 401
+ */
+export function createAuthInterceptor(options: {
+  getAccessToken: (request: InterceptedRequest) => Promise<string | undefined>;
+  refreshAccessToken: (request: InterceptedRequest) => Promise<boolean>;
+}): WhoopInterceptor {
+  return {
+    name: 'auth',
+
+    onRequest: async (request) => {
+      const accessToken = await options.getAccessToken(request);
+      if (accessToken) {
+        request.headers['Authorization'] = `Bearer ${accessToken}`;
+      }
+      return request;
+    },
+
+    onError: async (error, request) => {
+      if (!isAuthError(error) || error.status !== 401 || request.state.authRefreshed) {
+        return undefined;
+      }
+
+      request.state.authRefreshed = true;
+      return (await options.refreshAccessToken(request)) ? retryRequest() : undefined;
+    }
+  };
+}
+
+/**
+ * Map non-2xx responses to typed WHOOP errors
+ */
+export function createErrorMappingInterceptor(): WhoopInterceptor {
+  return {
+    name: 'error-mapping',
+
+    onResponse: (response) => {
+      if (!response.ok) {
+        throw ErrorFactory.fromHttpStatus(
+          response.status,
+          response.body,
+          undefined,
+          parseRateLimitHeaders(response.headers)
+        );
+      }
+      return response;
+    }
+  };
+}
\ No newline at end of file
@@ -3,11 +3,51 @@
  * Foundation class for all WHOOP API endpoint handlers
  */
 
+import type { WhoopEndpointResponse, WhoopResponse, WhoopScope } from '../types';
 import { WhoopHttpClient } from '../client/http';
 
+/**
+ * Endpoint methods resolving with the response metadata instead of just the body
+ */
+export type WithResponse<T> = {
+  [K in keyof T as T[K] extends (...args: any[]) => Promise<any> ? K : never]:
+    T[K] extends (...args: infer A) => Promise<infer R> ? (...args: A) => Promise<WhoopEndpointResponse<R>> : never;
+};
+
 /**
  * Base endpoint handler
  */
 export abstract class BaseEndpoint {
+  /** Scope the endpoint's requests need, checked before sending */
+  abstract readonly scope: WhoopScope;
+
   constructor(protected readonly http: WhoopHttpClient) {}
-} 
\ No newline at end of file
+
+  /**
+   * Variant of this endpoint whose methods resolve with status, headers, request ID and timing
+   * Metadata is left undefined unless the method made exactly one successful API call
+   */
+  withResponse(): WithResponse<this> {
+    return new Proxy(this, {
+      get: (target, property) => {
+        const value = Reflect.get(target, property);
+        if (typeof value !== 'function') {
+          return value;
+        }
+
+        return async (...args: unknown[]) => {
+          const responses: WhoopResponse<unknown>[] = [];
+          const endpoint = Object.create(target, {
+            http: { value: target.http.withResponseListener(response => { responses.push(response); }) }
+          });
+
+          const data = await value.apply(endpoint, args);
+
+          // Composite methods have no single response, and e.g. a 404 mapped to null has none
+          const [response, ...others] = responses;
+          return response && others.length === 0 ? { ...response, data } : { data };
+        };
+      }
+    }) as unknown as WithResponse<this>;
+  }
+}
\ No newline at end of file
@@ -11,14 +11,18 @@ import type {
   RequestOptions,
   CurrentRecoveryResult,
   WhoopQueryParams,
+  WhoopScope,
 } from '../types';
 import { validateId, validatePaginationParams } from '../utils';
 import { BaseEndpoint } from './base';
+import { cycleSchema, paginatedCycleSchema, recoverySchema } from './schemas';
 
 /**
  * Cycles endpoint handler
  */
 export class CyclesEndpoint extends BaseEndpoint {
+  readonly scope: WhoopScope = 'read:cycles';
+
   /**
    * Get all physiological cycles for a user
    */
@@ -31,6 +35,8 @@ export class CyclesEndpoint extends BaseEndpoint {
     return this.http.get<PaginatedCycleResponse>('/v1/cycle', {
       query: params,
       ...options,
+      schema: paginatedCycleSchema,
+      scopes: [this.scope],
     });
   }
 
@@ -43,7 +49,7 @@ export class CyclesEndpoint extends BaseEndpoint {
   ): Promise<Cycle> {
     const id = validateId(cycleId, 'Cycle ID');
     
-    return this.http.get<Cycle>(`/v1/cycle/${id}`, options);
+    return this.http.get<Cycle>(`/v1/cycle/${id}`, { ...options, schema: cycleSchema, scopes: [this.scope] });
   }
 
   /**
@@ -55,7 +61,7 @@ export class CyclesEndpoint extends BaseEndpoint {
   ): Promise<Recovery> {
     const id = validateId(cycleId, 'Cycle ID');
     
-    return this.http.get<Recovery>(`/v1/cycle/${id}/recovery`, options);
+    return this.http.get<Recovery>(`/v1/cycle/${id}/recovery`, { ...options, schema: recoverySchema, scopes: ['read:recovery'] });
   }
 
   /**
@@ -6,7 +6,7 @@
 import { WhoopHttpClient } from '../client/http';
 
 // Re-export all endpoint classes
-export { BaseEndpoint } from './base';
+export { BaseEndpoint, type WithResponse } from './base';
 export { CyclesEndpoint } from './cycles';
 export { RecoveryEndpoint } from './recovery';
 export { SleepEndpoint } from './sleep';
@@ -8,14 +8,18 @@ import type {
   PaginatedRecoveryResponse,
   PaginationParams,
   RequestOptions,
+  WhoopScope,
 } from '../types';
 import { validatePaginationParams } from '../utils';
 import { BaseEndpoint } from './base';
+import { paginatedRecoverySchema } from './schemas';
 
 /**
  * Recovery endpoint handler
  */
 export class RecoveryEndpoint extends BaseEndpoint {
+  readonly scope: WhoopScope = 'read:recovery';
+
   /**
    * Get all recoveries for a user
    */
@@ -28,6 +32,8 @@ export class RecoveryEndpoint extends BaseEndpoint {
     return this.http.get<PaginatedRecoveryResponse>('/v1/recovery', {
       query: params,
       ...options,
+      schema: paginatedRecoverySchema,
+      scopes: [this.scope],
     });
   }
 
@@ -0,0 +1,158 @@
+/**
+ * API Response Schemas
+ * Runtime counterparts of the response types in types/api.ts
+ */
+
+import type {
+  Cycle,
+  CycleScore,
+  Recovery,
+  RecoveryScore,
+  Sleep,
+  SleepNeeded,
+  SleepScore,
+  SleepStageSummary,
+  UserBasicProfile,
+  UserBodyMeasurement,
+  Workout,
+  WorkoutScore,
+  ZoneDuration,
+  PaginatedResponse,
+  ResponseSchema
+} from '../types';
+import { schema } from '../utils/schema';
+
+const { string, number, boolean, oneOf, optional, array, object } = schema;
+
+const scoreState = oneOf(['SCORED', 'PENDING_SCORE', 'UNSCORABLE']);
+
+function paginated<T>(record: ResponseSchema): ResponseSchema {
+  return object<PaginatedResponse<T>>({
+    records: array(record),
+    next_token: optional(string())
+  });
+}
+
+// Cycles
+export const cycleSchema = object<Cycle>({
+  id: number(),
+  user_id: number(),
+  created_at: string(),
+  updated_at: string(),
+  start: string(),
+  end: optional(string()),
+  timezone_offset: string(),
+  score_state: scoreState,
+  score: optional(object<CycleScore>({
+    strain: number(),
+    kilojoule: number(),
+    average_heart_rate: number(),
+    max_heart_rate: number()
+  }))
+});
+
+export const paginatedCycleSchema = paginated<Cycle>(cycleSchema);
+
+// Recovery
+export const recoverySchema = object<Recovery>({
+  cycle_id: number(),
+  sleep_id: number(),
+  user_id: number(),
+  created_at: string(),
+  updated_at: string(),
+  score_state: scoreState,
+  score: optional(object<RecoveryScore>({
+    user_calibrating: boolean(),
+    recovery_score: number(),
+    resting_heart_rate: number(),
+    hrv_rmssd_milli: number(),
+    spo2_percentage: optional(number()),
+    skin_temp_celsius: optional(number())
+  }))
+});
+
+export const paginatedRecoverySchema = paginated<Recovery>(recoverySchema);
+
+// Sleep
+export const sleepSchema = object<Sleep>({
+  id: number(),
+  user_id: number(),
+  created_at: string(),
+  updated_at: string(),
+  start: string(),
+  end: string(),
+  timezone_offset: string(),
+  nap: boolean(),
+  score_state: scoreState,
+  score: optional(object<SleepScore>({
+    stage_summary: object<SleepStageSummary>({
+      total_in_bed_time_milli: number(),
+      total_awake_time_milli: number(),
+      total_no_data_time_milli: number(),
+      total_light_sleep_time_milli: number(),
+      total_slow_wave_sleep_time_milli: number(),
+      total_rem_sleep_time_milli: number(),
+      sleep_cycle_count: number(),
+      disturbance_count: number()
+    }),
+    sleep_needed: object<SleepNeeded>({
+      baseline_milli: number(),
+      need_from_sleep_debt_milli: number(),
+      need_from_recent_strain_milli: number(),
+      need_from_recent_nap_milli: number()
+    }),
+    respiratory_rate: optional(number()),
+    sleep_performance_percentage: optional(number()),
+    sleep_consistency_percentage: optional(number()),
+    sleep_efficiency_percentage: optional(number())
+  }))
+});
+
+export const paginatedSleepSchema = paginated<Sleep>(sleepSchema);
+
+// Workouts
+export const workoutSchema = object<Workout>({
+  id: number(),
+  user_id: number(),
+  created_at: string(),
+  updated_at: string(),
+  start: string(),
+  end: string(),
+  timezone_offset: string(),
+  sport_id: number(),
+  score_state: scoreState,
+  score: optional(object<WorkoutScore>({
+    strain: number(),
+    average_heart_rate: number(),
+    max_heart_rate: number(),
+    kilojoule: number(),
+    percent_recorded: number(),
+    distance_meter: optional(number()),
+    altitude_gain_meter: optional(number()),
+    altitude_change_meter: optional(number()),
+    zone_duration: object<ZoneDuration>({
+      zone_zero_milli: optional(number()),
+      zone_one_milli: optional(number()),
+      zone_two_milli: optional(number()),
+      zone_three_milli: optional(number()),
+      zone_four_milli: optional(number()),
+      zone_five_milli: optional(number())
+    })
+  }))
+});
+
+export const paginatedWorkoutSchema = paginated<Workout>(workoutSchema);
+
+// User
+export const userBasicProfileSchema = object<UserBasicProfile>({
+  user_id: number(),
+  email: string(),
+  first_name: string(),
+  last_name: string()
+});
+
+export const userBodyMeasurementSchema = object<UserBodyMeasurement>({
+  height_meter: number(),
+  weight_kilogram: number(),
+  max_heart_rate: number()
+});
\ No newline at end of file
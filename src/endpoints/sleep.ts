@@ -8,14 +8,18 @@ import type {
   PaginatedSleepResponse,
   PaginationParams,
   RequestOptions,
+  WhoopScope,
 } from '../types';
 import { validateId, validatePaginationParams } from '../utils';
 import { BaseEndpoint } from './base';
+import { paginatedSleepSchema, sleepSchema } from './schemas';
 
 /**
  * Sleep endpoint handler
  */
 export class SleepEndpoint extends BaseEndpoint {
+  readonly scope: WhoopScope = 'read:sleep';
+
   /**
    * Get all sleeps for a user
    */
@@ -28,6 +32,8 @@ export class SleepEndpoint extends BaseEndpoint {
     return this.http.get<PaginatedSleepResponse>('/v1/activity/sleep', {
       query: params,
       ...options,
+      schema: paginatedSleepSchema,
+      scopes: [this.scope],
     });
   }
 
@@ -40,7 +46,7 @@ export class SleepEndpoint extends BaseEndpoint {
   ): Promise<Sleep> {
     const id = validateId(sleepId, 'Sleep ID');
     
-    return this.http.get<Sleep>(`/v1/activity/sleep/${id}`, options);
+    return this.http.get<Sleep>(`/v1/activity/sleep/${id}`, { ...options, schema: sleepSchema, scopes: [this.scope] });
   }
 
   /**
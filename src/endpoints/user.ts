@@ -8,44 +8,41 @@ import type {
   UserBodyMeasurement,
   UserSummary,
   RequestOptions,
+  WhoopScope,
 } from '../types';
 import { BaseEndpoint } from './base';
-
-// Debug logging utility
-const log = (level: 'DEBUG' | 'INFO' | 'WARN' | 'ERROR', message: string, data?: any) => {
-  const timestamp = new Date().toISOString();
-  const prefix = `[${timestamp}] [WHOOP-SDK-USER] [${level}]`;
-  
-  if (data) {
-    console.log(`${prefix} ${message}`, data);
-  } else {
-    console.log(`${prefix} ${message}`);
-  }
-};
+import { CyclesEndpoint } from './cycles';
+import { userBasicProfileSchema, userBodyMeasurementSchema } from './schemas';
 
 /**
  * User endpoint handler
  */
 export class UserEndpoint extends BaseEndpoint {
+  readonly scope: WhoopScope = 'read:profile';
+
+  private readonly logger = this.http.getLogger('user');
+
   /**
    * Get user's basic profile information
    */
   async getProfile(options?: RequestOptions): Promise<UserBasicProfile> {
-    log('INFO', '👤 Fetching user profile...');
+    this.logger.info('Fetching user profile...');
     
     try {
-      const profile = await this.http.get<UserBasicProfile>('/v1/user/profile/basic', options);
+      const profile = await this.http.get<UserBasicProfile>('/v1/user/profile/basic', {
+        ...options,
+        schema: userBasicProfileSchema,
+        scopes: [this.scope]
+      });
       
-      log('INFO', '✅ User profile retrieved successfully', {
+      this.logger.info('User profile retrieved successfully', {
         userId: profile.user_id,
-        firstName: profile.first_name,
-        lastName: profile.last_name,
-        email: profile.email ? 'provided' : 'not provided'
+        hasEmail: !!profile.email
       });
       
       return profile;
     } catch (error) {
-      log('ERROR', '💥 Failed to fetch user profile', {
+      this.logger.error('Failed to fetch user profile', {
         error: error instanceof Error ? error.message : String(error)
       });
       throw error;
@@ -56,20 +53,20 @@ export class UserEndpoint extends BaseEndpoint {
    * Get user's body measurements
    */
   async getBodyMeasurement(options?: RequestOptions): Promise<UserBodyMeasurement> {
-    log('INFO', '📏 Fetching user body measurements...');
+    this.logger.info('Fetching user body measurements...');
     
     try {
-      const bodyMeasurement = await this.http.get<UserBodyMeasurement>('/v1/user/measurement/body', options);
-      
-      log('INFO', '✅ Body measurements retrieved successfully', {
-        heightM: bodyMeasurement.height_meter,
-        weightKg: bodyMeasurement.weight_kilogram,
-        maxHeartRate: bodyMeasurement.max_heart_rate
+      const bodyMeasurement = await this.http.get<UserBodyMeasurement>('/v1/user/measurement/body', {
+        ...options,
+        schema: userBodyMeasurementSchema,
+        scopes: ['read:body_measurement']
       });
       
+      this.logger.info('Body measurements retrieved successfully');
+      
       return bodyMeasurement;
     } catch (error) {
-      log('ERROR', '💥 Failed to fetch body measurements', {
+      this.logger.error('Failed to fetch body measurements', {
         error: error instanceof Error ? error.message : String(error)
       });
       throw error;
@@ -81,29 +78,35 @@ export class UserEndpoint extends BaseEndpoint {
    * This is a convenience method that combines multiple API calls for a complete picture
    */
   async getSummary(options?: RequestOptions): Promise<UserSummary> {
-    log('INFO', '📊 Fetching comprehensive user summary...');
+    this.logger.info('Fetching comprehensive user summary...');
     
     try {
       // Fetch profile (required)
-      log('DEBUG', '👤 Getting user profile for summary...');
+      this.logger.debug('Getting user profile for summary...');
       const profile = await this.getProfile(options);
       
-      // Fetch optional data in parallel
-      log('DEBUG', '🔄 Fetching optional data in parallel...');
-      const [bodyMeasurement, currentRecoveryResult] = await Promise.allSettled([
-        this.getBodyMeasurement(options).catch((error: any) => {
-          log('WARN', '⚠️ Body measurement unavailable for summary', {
+      // Fetch optional data in parallel, skipping parts the user did not grant
+      this.logger.debug('Fetching optional data in parallel...');
+      const canReadBody = this.http.hasScope('read:body_measurement');
+      const canReadRecovery = this.http.missingScopes(['read:cycles', 'read:recovery']).length === 0;
+      if (!canReadBody || !canReadRecovery) {
+        this.logger.debug('Skipping summary parts without granted scopes', { canReadBody, canReadRecovery });
+      }
+
+      const [bodyMeasurement, currentRecovery] = await Promise.all([
+        canReadBody ? this.getBodyMeasurement(options).catch((error: unknown) => {
+          this.logger.warn('Body measurement unavailable for summary', {
             error: error instanceof Error ? error.message : String(error)
           });
           return null;
-        }),
-        // Access cycles endpoint through the parent SDK
-        (this.http as any).sdk?.cycles?.getCurrentRecovery(options).catch((error: any) => {
-          log('WARN', '⚠️ Current recovery unavailable for summary', {
+        }) : null,
+        // Built on this.http so withResponse() and response listeners see the recovery requests too
+        canReadRecovery ? new CyclesEndpoint(this.http).getCurrentRecovery(options).catch((error: unknown) => {
+          this.logger.warn('Current recovery unavailable for summary', {
             error: error instanceof Error ? error.message : String(error)
           });
           return null;
-        })
+        }) : null
       ]);
 
       const summary: UserSummary = {
@@ -111,23 +114,25 @@ export class UserEndpoint extends BaseEndpoint {
       };
 
       // Add body measurement if available
-      if (bodyMeasurement.status === 'fulfilled' && bodyMeasurement.value) {
-        summary.bodyMeasurement = bodyMeasurement.value;
-        log('DEBUG', '✅ Body measurement added to summary');
+      if (bodyMeasurement) {
+        summary.bodyMeasurement = bodyMeasurement;
+        this.logger.debug('Body measurement added to summary');
       } else {
-        log('DEBUG', '⚠️ Body measurement not available for summary');
+        this.logger.debug('Body measurement not available for summary');
       }
 
       // Add current cycle and recovery if available
-      if (currentRecoveryResult.status === 'fulfilled' && currentRecoveryResult.value) {
-        summary.currentCycle = currentRecoveryResult.value.cycle;
-        summary.currentRecovery = currentRecoveryResult.value.recovery;
-        log('DEBUG', '✅ Current cycle and recovery added to summary');
+      if (currentRecovery) {
+        summary.currentCycle = currentRecovery.cycle;
+        if (currentRecovery.recovery) {
+          summary.currentRecovery = currentRecovery.recovery;
+        }
+        this.logger.debug('Current cycle and recovery added to summary');
       } else {
-        log('DEBUG', '⚠️ Current cycle and recovery not available for summary');
+        this.logger.debug('Current cycle and recovery not available for summary');
       }
 
-      log('INFO', '✅ User summary completed successfully', {
+      this.logger.info('User summary completed successfully', {
         hasProfile: !!summary.profile,
         hasBodyMeasurement: !!summary.bodyMeasurement,
         hasCurrentCycle: !!summary.currentCycle,
@@ -136,7 +141,7 @@ export class UserEndpoint extends BaseEndpoint {
 
       return summary;
     } catch (error) {
-      log('ERROR', '💥 Failed to fetch user summary', {
+      this.logger.error('Failed to fetch user summary', {
         error: error instanceof Error ? error.message : String(error)
       });
       // If we can't get the basic profile, that's a critical error
@@ -149,22 +154,22 @@ export class UserEndpoint extends BaseEndpoint {
    * This is a quick way to determine if the user needs to complete calibration
    */
   async isNewUser(options?: RequestOptions): Promise<boolean> {
-    log('INFO', '🆕 Checking if user is new (calibrating)...');
+    this.logger.info('Checking if user is new (calibrating)...');
     
     try {
       // Try to get current recovery to check calibration status
-      log('DEBUG', '🔍 Getting current recovery to check calibration status...');
-      const currentRecovery = await (this.http as any).sdk?.cycles?.getCurrentRecovery(options);
-      const isCalibrating = currentRecovery?.status?.isCalibrating ?? false;
+      this.logger.debug('Getting current recovery to check calibration status...');
+      const currentRecovery = await new CyclesEndpoint(this.http).getCurrentRecovery(options);
+      const isCalibrating = currentRecovery.status.isCalibrating;
       
-      log('INFO', `${isCalibrating ? '🔄' : '✅'} User calibration status`, {
+      this.logger.info('User calibration status', {
         isCalibrating,
         hasRecoveryData: !!currentRecovery
       });
       
       return isCalibrating;
     } catch (error) {
-      log('WARN', '⚠️ Could not determine calibration status - assuming new user', {
+      this.logger.warn('Could not determine calibration status - assuming new user', {
         error: error instanceof Error ? error.message : String(error)
       });
       // If we can't get recovery data, assume they might be a new user
@@ -176,14 +181,14 @@ export class UserEndpoint extends BaseEndpoint {
    * Revoke user's OAuth access
    */
   async revokeAccess(options?: RequestOptions): Promise<void> {
-    log('INFO', '🗑️ Revoking user OAuth access...');
+    this.logger.info('Revoking user OAuth access...');
     
     try {
       await this.http.delete<void>('/v1/user/access', options);
       
-      log('INFO', '✅ User OAuth access revoked successfully');
+      this.logger.info('User OAuth access revoked successfully');
     } catch (error) {
-      log('ERROR', '💥 Failed to revoke user OAuth access', {
+      this.logger.error('Failed to revoke user OAuth access', {
         error: error instanceof Error ? error.message : String(error)
       });
       throw error;
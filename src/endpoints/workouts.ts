@@ -8,14 +8,18 @@ import type {
   PaginatedWorkoutResponse,
   PaginationParams,
   RequestOptions,
+  WhoopScope,
 } from '../types';
 import { validateId, validatePaginationParams } from '../utils';
 import { BaseEndpoint } from './base';
+import { paginatedWorkoutSchema, workoutSchema } from './schemas';
 
 /**
  * Workouts endpoint handler
  */
 export class WorkoutsEndpoint extends BaseEndpoint {
+  readonly scope: WhoopScope = 'read:workout';
+
   /**
    * Get all workouts for a user
    */
@@ -28,6 +32,8 @@ export class WorkoutsEndpoint extends BaseEndpoint {
     return this.http.get<PaginatedWorkoutResponse>('/v1/activity/workout', {
       query: params,
       ...options,
+      schema: paginatedWorkoutSchema,
+      scopes: [this.scope],
     });
   }
 
@@ -40,7 +46,7 @@ export class WorkoutsEndpoint extends BaseEndpoint {
   ): Promise<Workout> {
     const id = validateId(workoutId, 'Workout ID');
     
-    return this.http.get<Workout>(`/v1/activity/workout/${id}`, options);
+    return this.http.get<Workout>(`/v1/activity/workout/${id}`, { ...options, schema: workoutSchema, scopes: [this.scope] });
   }
 
   /**
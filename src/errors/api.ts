@@ -3,6 +3,7 @@
  * Error classes for HTTP responses and API-specific errors
  */
 
+import type { RateLimitState } from '../types';
 import { WhoopError } from './base';
 
 /**
@@ -66,7 +67,8 @@ export class WhoopRateLimitError extends WhoopAPIError {
     message: string = 'Rate limit exceeded',
     public readonly retryAfter?: number,
     details?: Record<string, any>,
-    cause?: Error
+    cause?: Error,
+    public readonly rateLimit?: RateLimitState
   ) {
     super(429, 'RATE_LIMIT_ERROR', message, details, cause);
   }
@@ -3,6 +3,8 @@
  * Foundation error classes for the WHOOP SDK
  */
 
+import type { ResponseValidationIssue, TimeoutPhase } from '../types';
+
 /**
  * Base error class for all WHOOP SDK errors
  */
@@ -39,13 +41,78 @@ export class WhoopNetworkError extends WhoopError {
   }
 }
 
+/**
+ * Client-side rate limit errors, raised before a request would exceed the configured quota
+ */
+export class WhoopClientRateLimitError extends WhoopError {
+  readonly code = 'CLIENT_RATE_LIMIT_ERROR';
+  
+  constructor(
+    message: string,
+    public readonly scope: 'app' | 'user',
+    public readonly window: 'minute' | 'day',
+    public readonly retryAfterMs: number,
+    cause?: Error
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Circuit breaker errors, raised instead of calling an API that is failing
+ */
+export class WhoopCircuitOpenError extends WhoopError {
+  readonly code = 'CIRCUIT_OPEN_ERROR';
+  
+  constructor(
+    message: string,
+    public readonly circuit: string,
+    public readonly retryAfterMs: number,
+    cause?: Error
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Response validation errors, raised when an API response does not match its documented schema
+ */
+export class WhoopResponseValidationError extends WhoopError {
+  readonly code = 'RESPONSE_VALIDATION_ERROR';
+  
+  constructor(
+    message: string,
+    public readonly issues: ResponseValidationIssue[],
+    public readonly url: string,
+    cause?: Error
+  ) {
+    super(message, cause);
+  }
+}
+
 /**
  * Request timeout errors
  */
 export class WhoopTimeoutError extends WhoopError {
   readonly code = 'TIMEOUT_ERROR';
   
-  constructor(message: string = 'Request timeout', cause?: Error) {
+  constructor(
+    message: string = 'Request timeout',
+    cause?: Error,
+    public readonly timeoutMs?: number,
+    public readonly phase?: TimeoutPhase
+  ) {
     super(message, cause);
   }
+}
+
+/**
+ * Cancellation errors, raised when the caller's AbortSignal fires
+ */
+export class WhoopAbortError extends WhoopError {
+  readonly code = 'ABORT_ERROR';
+  
+  constructor(message: string = 'Request aborted', public readonly reason?: unknown) {
+    super(message, reason instanceof Error ? reason : undefined);
+  }
 } 
\ No newline at end of file
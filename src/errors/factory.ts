@@ -15,13 +15,15 @@ import {
   WhoopNotFoundError,
   WhoopValidationError
 } from './api';
-import { WhoopOAuthError } from './oauth';
+import { WhoopOAuthError, WhoopScopeError, WhoopTokenDecryptionError } from './oauth';
+import type { RateLimitState, TimeoutPhase } from '../types';
+import { getServerRetryDelay, parseRateLimitHeaders } from '../utils/headers';
 
 /**
  * Error factory to create appropriate error types based on HTTP status
  */
 export class ErrorFactory {
-  static fromHttpStatus(status: number, body: any, cause?: Error): WhoopAPIError {
+  static fromHttpStatus(status: number, body: any, cause?: Error, rateLimit?: RateLimitState): WhoopAPIError {
     switch (status) {
       case 400:
         return new WhoopValidationError(
@@ -45,12 +47,17 @@ export class ErrorFactory {
         );
       
       case 429:
-        const retryAfter = body?.retry_after || body?.['retry-after'];
+        // The Retry-After header wins over the legacy body field
+        const bodyRetryAfter = body?.retry_after || body?.['retry-after'];
+        const retryAfter = rateLimit?.retryAfterMs !== undefined
+          ? Math.ceil(rateLimit.retryAfterMs / 1000)
+          : bodyRetryAfter ? parseInt(bodyRetryAfter, 10) : undefined;
         return new WhoopRateLimitError(
           body?.message || 'Rate limit exceeded',
-          retryAfter ? parseInt(retryAfter, 10) : undefined,
+          retryAfter,
           body,
-          cause
+          cause,
+          rateLimit
         );
       
       default:
@@ -65,8 +72,13 @@ export class ErrorFactory {
     );
   }
 
-  static fromTimeout(): WhoopTimeoutError {
-    return new WhoopTimeoutError();
+  static fromTimeout(timeoutMs?: number, phase?: TimeoutPhase): WhoopTimeoutError {
+    if (timeoutMs === undefined) {
+      return new WhoopTimeoutError();
+    }
+
+    const waitingFor = phase === 'body' ? 'the response body' : 'a response';
+    return new WhoopTimeoutError(`Request timed out after ${timeoutMs}ms waiting for ${waitingFor}`, undefined, timeoutMs, phase);
   }
 }
 
@@ -105,15 +117,31 @@ export function isOAuthError(error: unknown): error is WhoopOAuthError {
   return error instanceof WhoopOAuthError;
 }
 
+/**
+ * Type guard to check if an error is a missing scope error
+ */
+export function isScopeError(error: unknown): error is WhoopScopeError {
+  return error instanceof WhoopScopeError;
+}
+
+/**
+ * Type guard to check if an error is a failed token decryption
+ */
+export function isTokenDecryptionError(error: unknown): error is WhoopTokenDecryptionError {
+  return error instanceof WhoopTokenDecryptionError;
+}
+
 /**
  * Extract retry information from error
  */
-export function getRetryInfo(error: unknown): { canRetry: boolean; delayMs?: number } {
+export function getRetryInfo(error: unknown): { canRetry: boolean; delayMs?: number; serverRequested?: boolean } {
   if (isRateLimitError(error)) {
-    return {
-      canRetry: true,
-      delayMs: error.retryAfter ? error.retryAfter * 1000 : 60000, // Default 1 minute
-    };
+    const serverDelayMs = getServerRetryDelay(error.rateLimit) ??
+      (error.retryAfter !== undefined ? error.retryAfter * 1000 : undefined);
+
+    return serverDelayMs !== undefined
+      ? { canRetry: true, delayMs: serverDelayMs, serverRequested: true }
+      : { canRetry: true, delayMs: 60000 }; // Default 1 minute
   }
 
   if (isWhoopAPIError(error)) {
@@ -145,7 +173,7 @@ export async function createErrorFromResponse(response: Response): Promise<Whoop
     body = { message: response.statusText };
   }
   
-  return ErrorFactory.fromHttpStatus(response.status, body);
+  return ErrorFactory.fromHttpStatus(response.status, body, undefined, parseRateLimitHeaders(response.headers));
 }
 
 /**
@@ -3,20 +3,53 @@
  * Error classes for OAuth 2.0 authentication flow
  */
 
+import type { OAuthErrorCode, WhoopScope } from '../types';
 import { WhoopError } from './base';
 
 /**
  * OAuth-specific errors
  */
 export class WhoopOAuthError extends WhoopError {
-  readonly code = 'OAUTH_ERROR';
+  readonly code: OAuthErrorCode;
   
   constructor(
     message: string,
     public readonly oauthError?: string,
     public readonly oauthErrorDescription?: string,
+    cause?: Error,
+    code: OAuthErrorCode = 'OAUTH_ERROR'
+  ) {
+    super(message, cause);
+    this.code = code;
+  }
+}
+
+/**
+ * A request needs scopes the user did not grant, raised before the request is sent
+ */
+export class WhoopScopeError extends WhoopError {
+  readonly code = 'SCOPE_ERROR';
+
+  constructor(
+    message: string,
+    public readonly missingScopes: WhoopScope[] = [],
+    cause?: Error
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * An encrypted token blob is malformed, was altered or needs a key that is not configured
+ */
+export class WhoopTokenDecryptionError extends WhoopError {
+  readonly code = 'TOKEN_DECRYPTION_ERROR';
+
+  constructor(
+    message: string,
+    public readonly keyId?: string,
     cause?: Error
   ) {
     super(message, cause);
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
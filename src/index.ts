@@ -11,6 +11,7 @@ import type {
   RequestOptions,
   CurrentRecoveryResult,
   UserSummary,
+  RateLimitState,
 } from './types';
 import { WhoopHttpClient } from './client/http';
 import { WhoopOAuthClient } from './auth/oauth';
@@ -93,6 +94,13 @@ export class WhoopSDK {
     return this.http.getTokens();
   }
 
+  /**
+   * Stop background work such as proactive token refresh
+   */
+  public dispose(): void {
+    this.http.dispose();
+  }
+
   /**
    * Clear stored tokens
    */
@@ -107,6 +115,28 @@ export class WhoopSDK {
     return this.http.isAuthenticated();
   }
 
+  /**
+   * Check whether the user granted a scope
+   * Scopes are assumed granted while unknown, e.g. with a token provider
+   */
+  public hasScope(scope: WhoopScope): boolean {
+    return this.http.hasScope(scope);
+  }
+
+  /**
+   * Scopes from the list that the user did not grant
+   */
+  public missingScopes(scopes: WhoopScope[]): WhoopScope[] {
+    return this.http.missingScopes(scopes);
+  }
+
+  /**
+   * Get the most recent rate limit state reported by the API
+   */
+  public getRateLimitState(): RateLimitState | undefined {
+    return this.http.getRateLimitState();
+  }
+
   // === Convenience Methods for Common Use Cases ===
 
   /**
@@ -182,6 +212,7 @@ export class WhoopSDK {
   /**
    * Create SDK instance with existing tokens (no OAuth flow needed)
    * This is the easiest way to get started if you already have tokens
+   * Without a refresh token and oauth config, the access token is used as a static bearer token
    */
   public static withTokens(
     accessToken: string,
@@ -213,6 +244,11 @@ export class WhoopSDK {
       ...config,
       accessToken: tokens.accessToken,
     };
+
+    // Key the user's tokens in the token store, unless the caller chose a key already
+    if (config.oauth && !config.oauth.userId) {
+      sdkConfig.oauth = { ...config.oauth, userId };
+    }
     
     if (tokens.refreshToken) {
       sdkConfig.refreshToken = tokens.refreshToken;
@@ -237,16 +273,25 @@ export {
   validatePaginationParams,
   buildUrl,
   DEFAULT_BASE_URL,
+  consoleLogger,
+  silentLogger,
+  WhoopRateLimiter,
+  WhoopCircuitBreaker,
+  PrometheusExporter,
+  PROMETHEUS_CONTENT_TYPE,
+  schema,
 } from './utils';
 export { WhoopOAuthClient } from './auth/oauth';
 export { WhoopHttpClient } from './client/http';
+export { respondWith, retryRequest } from './client/interceptors';
 export { 
   CyclesEndpoint,
   RecoveryEndpoint, 
   SleepEndpoint,
   WorkoutsEndpoint,
   UserEndpoint,
-  type WhoopEndpoints
+  type WhoopEndpoints,
+  type WithResponse
 } from './endpoints';
 
 // Re-export OAuth utilities
@@ -254,6 +299,15 @@ export {
   parseAuthorizationCallback,
   validateAuthorizationCallback
 } from './auth/oauth';
+export {
+  createCodeChallenge,
+  createPkcePair,
+  generateCodeVerifier
+} from './auth/pkce';
+export { InMemoryNonceStore, OAuthStateManager } from './auth/state';
+export { FileTokenStore, InMemoryTokenStore } from './auth/token-store';
+export { EncryptedTokenStore, TokenCipher } from './auth/token-encryption';
+export { loginWithLoopback } from './auth/loopback';
 
 /**
  * Default export is the main SDK class
@@ -316,8 +370,8 @@ export function validateOAuthConfig(config: OAuthConfig): void {
     throw new WhoopConfigError('clientId is required');
   }
   
-  if (!config.clientSecret) {
-    throw new WhoopConfigError('clientSecret is required');
+  if (!config.clientSecret && !config.pkce) {
+    throw new WhoopConfigError('clientSecret is required unless pkce is enabled');
   }
   
   if (!config.redirectUri) {
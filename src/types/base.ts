@@ -3,6 +3,8 @@
  * Common types used throughout the WHOOP SDK
  */
 
+import type { RetryPolicy } from './retry';
+
 // Base types
 export type ScoreState = 'SCORED' | 'PENDING_SCORE' | 'UNSCORABLE';
 export type TimezoneOffset = string; // Format: '+hh:mm', '-hh:mm', or 'Z'
@@ -22,11 +24,20 @@ export interface PaginatedResponse<T> {
 
 // Request Options
 export interface RequestOptions {
+  /** Cancels the request, including pending retries, with WhoopAbortError */
   signal?: AbortSignal;
+  /** Per-attempt timeout in milliseconds, exceeded attempts fail with WhoopTimeoutError */
   timeout?: number;
+  /** Total attempts including the first (legacy, prefer maxRetries) */
   retries?: number;
+  /** Retries after the first attempt */
   maxRetries?: number;
+  /** Delay before the first retry in milliseconds */
   retryDelay?: number;
+  /** Retry policy for this request, merged over the global policy */
+  retryPolicy?: RetryPolicy;
+  /** Response validation for this request, overriding the SDK setting */
+  responseValidation?: ResponseValidationMode;
   headers?: Record<string, string>;
   params?: Record<string, any>;
   nextToken?: string;
@@ -34,10 +45,69 @@ export interface RequestOptions {
   cacheTtl?: number;
 }
 
+// Parsed response body with the metadata of the request that produced it
+export interface WhoopResponse<T> {
+  data: T;
+  /** HTTP status code */
+  status: number;
+  /** Response headers with lower-case names */
+  headers: Record<string, string>;
+  /** SDK-generated request identifier, also attached to log entries */
+  requestId: string;
+  /** Final request URL, after interceptors */
+  url: string;
+  /** Attempts made including retries (0 when served from cache) */
+  attempts: number;
+  /** Time from the call to the response, including retries and rate limit waits */
+  durationMs: number;
+  /** Whether the response came from the cache */
+  cacheStatus: 'hit' | 'miss' | 'skip';
+}
+
+// Result of an endpoint's withResponse() variant, without metadata when the method made
+// no successful API call (e.g. a 404 mapped to null) or several of them
+export type WhoopEndpointResponse<T> =
+  | WhoopResponse<T>
+  | ({ data: T } & { [K in Exclude<keyof WhoopResponse<T>, 'data'>]?: undefined });
+
+// Runtime response validation: off, throw on mismatch, or log and pass through
+export type ResponseValidationMode = 'off' | 'strict' | 'lenient';
+
+// A single schema mismatch in a response body
+export interface ResponseValidationIssue {
+  /** Location of the value, e.g. records[0].score.strain */
+  path: string;
+  /** What was expected and what was found */
+  message: string;
+}
+
+// Response schema check, collecting issues for the value at path
+export type ResponseSchema = (value: unknown, path: string, issues: ResponseValidationIssue[]) => void;
+
+// Fetch-compatible transport (global fetch, undici, node-fetch or a test double)
+export type WhoopFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
 // API Error Types
 export interface APIError {
   status: number;
   message: string;
   code?: string;
   details?: Record<string, any>;
-} 
\ No newline at end of file
+} 
+
+// Request stage a timeout fired in: waiting for response headers, or reading the body
+export type TimeoutPhase = 'headers' | 'body';
+
+// Rate limit snapshot reported by the API in response headers
+export interface RateLimitState {
+  /** Requests allowed in the current window (X-RateLimit-Limit) */
+  limit?: number;
+  /** Requests left in the current window (X-RateLimit-Remaining) */
+  remaining?: number;
+  /** Epoch milliseconds when the window resets (X-RateLimit-Reset) */
+  resetAt?: number;
+  /** Delay the server asked for before the next request (Retry-After) */
+  retryAfterMs?: number;
+  /** Epoch milliseconds when the headers were read */
+  observedAt: number;
+}
\ No newline at end of file
@@ -0,0 +1,77 @@
+/**
+ * Circuit Breaker Type Definitions
+ * Fail-fast protection when the WHOOP API is degraded
+ */
+
+// Circuit states
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Outcome of a request that went through the circuit
+export type CircuitResult = { status: number } | { error: unknown };
+
+// State transition notification
+export interface CircuitStateChange {
+  /** Circuit key, a host or a route */
+  circuit: string;
+  from: CircuitState;
+  to: CircuitState;
+  /** Failure rate in the rolling window at the time of the change (0-1) */
+  failureRate: number;
+  timestamp: number;
+}
+
+// Circuit Breaker Configuration
+export interface CircuitBreakerConfig {
+  /** Track one circuit per API host or per route (default: 'host') */
+  scope?: 'host' | 'route';
+  /** Failure rate that opens the circuit, between 0 and 1 (default: 0.5) */
+  failureRateThreshold?: number;
+  /** Requests needed in the window before the failure rate is evaluated (default: 10) */
+  minimumRequests?: number;
+  /** Rolling window for the failure rate in milliseconds (default: 60000) */
+  windowMs?: number;
+  /** Time an open circuit waits before allowing trial requests in milliseconds (default: 30000) */
+  cooldownMs?: number;
+  /** Successful trial requests needed to close a half-open circuit (default: 1) */
+  halfOpenMaxRequests?: number;
+  /** Decide whether a result counts as a failure (default: network errors, timeouts and 5xx) */
+  isFailure?: (result: CircuitResult) => boolean;
+  /** Called whenever a circuit changes state */
+  onStateChange?: (event: CircuitStateChange) => void;
+}
+
+// Per-circuit statistics
+export interface CircuitStats {
+  state: CircuitState;
+  /** Requests recorded in the rolling window */
+  requests: number;
+  /** Failures recorded in the rolling window */
+  failures: number;
+  failureRate: number;
+  /** Epoch milliseconds when the circuit last opened */
+  openedAt?: number;
+}
+
+// Circuit breaker statistics
+export interface CircuitBreakerStats {
+  /** Requests rejected while a circuit was open */
+  rejected: number;
+  /** Number of times any circuit opened */
+  opened: number;
+  circuits: Record<string, CircuitStats>;
+}
+
+// Circuit breaker shared between SDK clients
+export interface CircuitBreaker {
+  /** Key of the circuit guarding a request */
+  getCircuitKey(method: string, url: string): string;
+  /** Throw WhoopCircuitOpenError when the circuit rejects the request */
+  acquire(circuit: string): void;
+  /** Record the outcome of an acquired request */
+  record(circuit: string, result: CircuitResult): void;
+  /** Give back an acquired request that ended without an outcome, e.g. cancelled by the caller */
+  release(circuit: string): void;
+  getState(circuit: string): CircuitState;
+  getStats(): CircuitBreakerStats;
+  reset(): void;
+}
\ No newline at end of file
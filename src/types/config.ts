@@ -3,24 +3,65 @@
  * Configuration options for the WHOOP SDK with performance optimizations
  */
 
-import type { OAuthConfig, OAuthTokens } from './oauth';
-import type { RequestOptions } from './base';
+import type { OAuthConfig, OAuthTokens, WhoopTokenProvider } from './oauth';
+import type { RequestOptions, ResponseValidationMode, WhoopFetch } from './base';
+import type { LogLevel, WhoopLogger } from './logger';
+import type { WhoopInterceptor } from './interceptors';
+import type { RetryPolicy } from './retry';
+import type { TracingConfig } from './tracing';
+import type { CircuitBreaker, CircuitBreakerConfig } from './circuit-breaker';
 import type { 
   CacheConfig, 
   RequestDedupe, 
   PerformanceHooks, 
   MemoryConfig, 
-  ConnectionConfig 
+  ConnectionConfig,
+  RateLimitConfig,
+  RateLimiter,
+  MetricsRecorder
 } from './performance';
 
 // SDK Configuration
 export interface WhoopSDKConfig {
+  /** Without oauth or refreshToken, sent as a static bearer token that is never refreshed */
   accessToken?: string;
   refreshToken?: string;
+  /** Epoch milliseconds when accessToken expires, left unknown when omitted */
+  expiresAt?: number;
+  /** Space-separated scopes granted to accessToken */
+  scope?: string;
+  /** Fetches the access token for each request instead of using OAuth tokens */
+  tokenProvider?: WhoopTokenProvider;
   baseUrl?: string;
   oauth?: OAuthConfig;
   defaultRequestOptions?: RequestOptions;
   onTokenRefresh?: (tokens: OAuthTokens) => void | Promise<void>;
+
+  /** Structured logger; the SDK is silent when omitted */
+  logger?: WhoopLogger;
+  /** Minimum level passed to the logger (default: 'info') */
+  logLevel?: LogLevel;
+
+  /** Request/response interceptors, run in order */
+  interceptors?: WhoopInterceptor[];
+
+  /** Fetch implementation for API and token requests (default: global fetch) */
+  fetch?: WhoopFetch;
+
+  /** Tracer for API and token requests, with trace header propagation */
+  tracing?: TracingConfig;
+
+  /** Default retry policy, overridable per request */
+  retryPolicy?: RetryPolicy;
+
+  /** Check API responses against the documented schemas (default: 'off') */
+  responseValidation?: ResponseValidationMode;
+
+  /** Client-side rate limiting, pass a limiter instance to share one budget between clients */
+  rateLimit?: RateLimitConfig | RateLimiter;
+
+  /** Fail fast while the API is degraded, pass a breaker instance to share circuits between clients */
+  circuitBreaker?: CircuitBreakerConfig | CircuitBreaker;
   
   // Performance Configuration
   performance?: {
@@ -30,6 +71,8 @@ export interface WhoopSDKConfig {
     deduplication?: RequestDedupe;
     /** Performance monitoring hooks */
     hooks?: PerformanceHooks;
+    /** Telemetry sink, e.g. a PrometheusExporter shared between clients */
+    metrics?: MetricsRecorder;
     /** Memory management options */
     memory?: MemoryConfig;
     /** Connection optimization */
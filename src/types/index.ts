@@ -16,4 +16,19 @@ export * from './api';
 export * from './config';
 
 // Re-export all performance types
-export * from './performance'; 
\ No newline at end of file
+export * from './performance';
+
+// Re-export all logger types
+export * from './logger';
+
+// Re-export all interceptor types
+export * from './interceptors';
+
+// Re-export all retry types
+export * from './retry';
+
+// Re-export all circuit breaker types
+export * from './circuit-breaker';
+
+// Re-export all tracing types
+export * from './tracing';
\ No newline at end of file
@@ -0,0 +1,70 @@
+/**
+ * Interceptor Type Definitions
+ * Request/response middleware for the WHOOP HTTP client
+ */
+
+// Outgoing request as seen by interceptors
+export interface InterceptedRequest {
+  /** SDK-generated request identifier */
+  readonly requestId: string;
+  /** Upper-case HTTP method */
+  method: string;
+  /** Fully-qualified request URL */
+  url: string;
+  /** Request headers (mutable) */
+  headers: Record<string, string>;
+  /** Serialized request body */
+  body?: string;
+  /** Number of times interceptors have replayed this request */
+  readonly replays: number;
+  /** Scratch space shared by interceptors across replays of the same request */
+  readonly state: Record<string, unknown>;
+}
+
+// Incoming response as seen by interceptors
+export interface InterceptedResponse {
+  /** Request that produced this response */
+  readonly request: InterceptedRequest;
+  /** Whether the status is in the 2xx range */
+  ok: boolean;
+  /** HTTP status code */
+  status: number;
+  /** HTTP status text */
+  statusText: string;
+  /** Response headers */
+  headers: Headers;
+  /** Parsed response body (JSON when available, otherwise text) */
+  body: unknown;
+}
+
+// Short-circuit the pipeline and resolve the request with a body
+export interface InterceptorResponseAction {
+  action: 'respond';
+  body: unknown;
+}
+
+// Replay the request from the start of the interceptor chain
+export interface InterceptorRetryAction {
+  action: 'retry';
+}
+
+type MaybePromise<T> = T | Promise<T>;
+
+// Request/response middleware
+export interface WhoopInterceptor {
+  /** Name used in logs */
+  name?: string;
+  /** Inspect or rewrite a request, or answer it without hitting the network */
+  onRequest?: (
+    request: InterceptedRequest
+  ) => MaybePromise<InterceptedRequest | InterceptorResponseAction | void>;
+  /** Inspect or rewrite a response, or replay the request */
+  onResponse?: (
+    response: InterceptedResponse
+  ) => MaybePromise<InterceptedResponse | InterceptorRetryAction | void>;
+  /** Replace an error, recover with a body, or replay the request */
+  onError?: (
+    error: unknown,
+    request: InterceptedRequest
+  ) => MaybePromise<Error | InterceptorResponseAction | InterceptorRetryAction | void>;
+}
\ No newline at end of file
@@ -0,0 +1,18 @@
+/**
+ * Logger Type Definitions
+ * Pluggable structured logging for the WHOOP SDK
+ */
+
+// Log levels, ordered from most to least verbose
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+// Structured fields attached to a log entry
+export type LogFields = Record<string, unknown>;
+
+// Logger interface compatible with pino, winston, bunyan and console
+export interface WhoopLogger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
\ No newline at end of file
@@ -3,21 +3,135 @@
  * OAuth 2.0 related types for authentication
  */
 
+import type { LogLevel, WhoopLogger } from './logger';
+import type { WhoopFetch } from './base';
+import type { TracingConfig } from './tracing';
+import type { MetricsRecorder } from './performance';
+import type { RetryPolicy } from './retry';
+
 // OAuth Types
 export interface OAuthTokens {
   access_token: string;
   refresh_token: string;
+  /** Lifetime in seconds when the token was issued, 0 when unknown */
   expires_in: number;
   token_type: string;
   scope: string;
+  /** Epoch milliseconds when the token was received */
+  obtained_at?: number;
+  /** Epoch milliseconds when the access token expires */
+  expires_at?: number;
 }
 
 export interface OAuthConfig {
   clientId: string;
-  clientSecret: string;
+  /** Required unless pkce is enabled, leave it out of mobile and CLI apps */
+  clientSecret?: string;
   redirectUri: string;
+  /** Use PKCE (S256) in the authorization code flow (default: false) */
+  pkce?: boolean;
   baseUrl?: string;
   scopes?: string[];
+  /** Structured logger; the OAuth client is silent when omitted */
+  logger?: WhoopLogger;
+  /** Minimum level passed to the logger (default: 'info') */
+  logLevel?: LogLevel;
+  /** Fetch implementation for token requests (default: global fetch) */
+  fetch?: WhoopFetch;
+  /** Tracer for token requests */
+  tracing?: TracingConfig;
+  /** Telemetry sink counting token refreshes */
+  metrics?: MetricsRecorder;
+  /** Treat access tokens as expired this many milliseconds early (default: 5 minutes) */
+  expirySkewMs?: number;
+  /** Refresh tokens in the background before they expire (default: off) */
+  proactiveRefresh?: boolean | ProactiveRefreshConfig;
+  /** Persists tokens: read on startup, written on exchange and refresh, deleted on revoke */
+  tokenStore?: TokenStore;
+  /** Token store key for this client's user (default: 'default') */
+  userId?: string;
+}
+
+// Background token refresh ahead of expiry
+export interface ProactiveRefreshConfig {
+  /** Refresh this many milliseconds before the token enters the expiry skew (default: 60000) */
+  leadTimeMs?: number;
+  /** Backoff between failed refreshes (default: 5s doubling up to 5 minutes) */
+  backoff?: Pick<RetryPolicy, 'baseDelayMs' | 'maxDelayMs' | 'jitter'>;
+  /** Called with the new tokens after each background refresh */
+  onRefresh?: (tokens: OAuthTokens) => void | Promise<void>;
+  /** Called when a background refresh fails, with the delay before the next attempt or undefined when it gives up */
+  onError?: (error: unknown, retryInMs: number | undefined) => void;
+}
+
+// Supplies access tokens from the application's own token service
+export type WhoopTokenProvider = (context: TokenProviderContext) => string | Promise<string>;
+
+export interface TokenProviderContext {
+  /** True after the API rejected the last token, return a new one rather than a cached one */
+  forceRefresh: boolean;
+}
+
+// Token persistence keyed by user, e.g. a database table or an encrypted file
+// EncryptedTokenStore keeps encrypted blobs in a TokenStore<string>
+export interface TokenStore<T = OAuthTokens> {
+  get(userId: string): Promise<T | undefined>;
+  set(userId: string, tokens: T): Promise<void>;
+  delete(userId: string): Promise<void>;
+}
+
+// AES-256-GCM key for encrypting tokens at rest, the id is written into every blob
+export interface TokenEncryptionKey {
+  /** Identifies the key in stored blobs, letters, digits, '-' and '_' only */
+  id: string;
+  /** 32 random bytes */
+  key: Uint8Array;
+}
+
+export interface TokenCipherConfig {
+  /** The first key encrypts, all keys decrypt; put a new key first to rotate */
+  keys: TokenEncryptionKey[];
+}
+
+// PKCE code verifier and challenge (RFC 7636)
+export interface PkcePair {
+  codeVerifier: string;
+  codeChallenge: string;
+  codeChallengeMethod: 'S256';
+}
+
+// OAuth error codes; the state codes tell forged, stale and reused state values apart
+export type OAuthErrorCode =
+  | 'OAUTH_ERROR'
+  | 'OAUTH_STATE_INVALID'
+  | 'OAUTH_STATE_TAMPERED'
+  | 'OAUTH_STATE_EXPIRED'
+  | 'OAUTH_STATE_REPLAYED';
+
+// Records state nonces that were already accepted, share one store between instances behind a load balancer
+export interface OAuthNonceStore {
+  /** Mark a nonce as used until expiresAt (epoch ms), returning false if it was used before */
+  consume(nonce: string, expiresAt: number): boolean | Promise<boolean>;
+}
+
+export interface OAuthStateConfig {
+  /** HMAC-SHA256 key, at least 32 bytes */
+  secret: string | Uint8Array;
+  /** How long a state value is accepted in milliseconds (default: 10 minutes) */
+  ttlMs?: number;
+  /** Replay protection store (default: in-memory) */
+  nonceStore?: OAuthNonceStore;
+}
+
+// Verified contents of a signed state value
+export interface OAuthStateData<T = unknown> {
+  nonce: string;
+  /** Epoch milliseconds when the state was created */
+  issuedAt: number;
+  /** Epoch milliseconds after which the state is rejected */
+  expiresAt: number;
+  /** Application data carried through the redirect, e.g. a return-to path */
+  payload?: T;
 }
 
 // Scopes
@@ -30,6 +144,40 @@ export type WhoopScope =
   | 'read:body_measurement'
   | 'offline';
 
+// Options for the loopback-redirect login used by CLIs and scripts
+export interface LoopbackLoginOptions {
+  /** Scopes to request (default: the client's configured scopes) */
+  scopes?: WhoopScope[];
+  /** Called with the authorization URL, e.g. to open a browser (default: print it to stdout) */
+  openUrl?: (url: string) => void | Promise<void>;
+  /** Give up when no callback arrives in time in milliseconds (default: 5 minutes) */
+  timeoutMs?: number;
+  /** Cancels the login and shuts the server down */
+  signal?: AbortSignal;
+}
+
+// SDK features unlocked by a scope
+export type WhoopFeature =
+  | 'recovery'
+  | 'cycles'
+  | 'workouts'
+  | 'sleep'
+  | 'profile'
+  | 'body_measurement'
+  | 'offline_access';
+
+// Outcome of an incremental authorization
+export interface IncrementalAuthorizationResult {
+  /** Tokens from the new grant, replacing the previous ones */
+  tokens: OAuthTokens;
+  /** Scopes the token endpoint reports for the new grant */
+  grantedScopes: WhoopScope[];
+  /** Scopes the user granted in this step */
+  newScopes: WhoopScope[];
+  /** Features that became available */
+  newFeatures: WhoopFeature[];
+}
+
 export const WHOOP_SCOPES: Record<string, WhoopScope> = {
   RECOVERY: 'read:recovery',
   CYCLES: 'read:cycles',
@@ -17,21 +17,81 @@ export interface CacheConfig {
 
 // Request Deduplication
 export interface RequestDedupe {
-  /** Enable request deduplication */
+  /** Enable request deduplication (default: true) */
   enabled?: boolean;
-  /** Deduplication window in milliseconds */
+  /** @deprecated Identical requests share the pending request for as long as it is in flight */
   windowMs?: number;
   /** Maximum concurrent requests per endpoint */
   maxConcurrent?: number;
 }
 
+// Client-side rate limit budget
+export interface RateLimitBudget {
+  /** Maximum requests per rolling minute */
+  requestsPerMinute?: number;
+  /** Maximum requests per rolling day */
+  requestsPerDay?: number;
+}
+
+// Client-side Rate Limiting
+export interface RateLimitConfig {
+  /** Budget shared by every request made through the limiter (default: 100/minute, 10,000/day) */
+  app?: RateLimitBudget;
+  /** Budget applied separately to each user access token (default: unlimited) */
+  user?: RateLimitBudget;
+  /** Wait for budget to free up, or fail immediately (default: 'queue') */
+  strategy?: 'queue' | 'reject';
+  /** Longest a request may wait in the queue before it is rejected (default: 60000) */
+  maxWaitMs?: number;
+}
+
+// Remaining budget per rate limit window
+export interface RateLimitRemaining {
+  minute?: number;
+  day?: number;
+}
+
+// Rate limiter statistics
+export interface RateLimiterStats {
+  acquired: number;
+  queued: number;
+  rejected: number;
+  totalWaitMs: number;
+  strategy: 'queue' | 'reject';
+  trackedUsers: number;
+  remaining: {
+    app: RateLimitRemaining;
+    user?: RateLimitRemaining;
+  };
+}
+
+// Rate limiter shared between SDK clients
+export interface RateLimiter {
+  /** Reserve budget for one request, resolving with the time spent waiting */
+  acquire(userKey?: string, signal?: AbortSignal): Promise<number>;
+  getStats(userKey?: string): RateLimiterStats;
+  reset(): void;
+}
+
 // Performance Monitoring
 export interface PerformanceMetrics {
+  /** SDK-generated request identifier */
+  requestId: string;
+  /** HTTP method */
+  method: string;
+  /** Request URL */
+  url: string;
+  /** URL path with IDs replaced by ':id' */
+  route: string;
+  /** Final HTTP status, absent when no response was received */
+  status?: number;
+  /** Whether the request resolved successfully */
+  success: boolean;
   /** Request start time */
   startTime: number;
   /** Request end time */
   endTime: number;
-  /** Request duration in milliseconds */
+  /** Request duration in milliseconds, including retries */
   duration: number;
   /** Response size in bytes */
   responseSize?: number;
@@ -39,8 +99,73 @@ export interface PerformanceMetrics {
   cacheStatus: 'hit' | 'miss' | 'skip';
   /** Retry count */
   retryCount: number;
-  /** Network error count */
+  /** Failed attempts, including the final one when the request failed */
   errorCount: number;
+  /** Whether the request joined an identical in-flight request */
+  deduplicated: boolean;
+  /** Time spent waiting for the client-side rate limiter in milliseconds */
+  rateLimitWaitMs: number;
+}
+
+// Prometheus Exporter Configuration
+export interface PrometheusExporterConfig {
+  /** Metric name prefix (default: 'whoop_sdk') */
+  prefix?: string;
+  /** Request duration bucket upper bounds in milliseconds */
+  buckets?: number[];
+  /** Labels added to every sample, e.g. { service: 'api' } */
+  labels?: Record<string, string>;
+}
+
+// Telemetry sink shared between SDK clients
+export interface MetricsRecorder {
+  /** Called once per completed request */
+  recordRequest(metrics: PerformanceMetrics): void;
+  /** Called once per token refresh request */
+  recordTokenRefresh(outcome: 'success' | 'failure'): void;
+}
+
+// Request latency percentiles in milliseconds
+export interface LatencyPercentiles {
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+// Request latency histogram
+export interface LatencyHistogram {
+  /** Requests at or below each upper bound in milliseconds (cumulative, last bound is Infinity) */
+  buckets: Array<{ le: number; count: number }>;
+  /** Number of recorded requests */
+  count: number;
+  /** Sum of recorded durations in milliseconds */
+  sum: number;
+}
+
+// Request statistics for a single route
+export interface RouteStats {
+  requests: number;
+  failedRequests: number;
+  /** Share of requests that failed (0-1) */
+  errorRate: number;
+  avgResponseTime: number;
+  latency: LatencyPercentiles;
+}
+
+// Request statistics collected from PerformanceMetrics
+export interface RequestStats {
+  /** Requests that have completed, successfully or not */
+  completedRequests: number;
+  failedRequests: number;
+  /** Share of completed requests that failed (0-1) */
+  errorRate: number;
+  retries: number;
+  slowRequests: number;
+  avgResponseTime: number;
+  latency: LatencyPercentiles;
+  histogram: LatencyHistogram;
+  /** Statistics keyed by method and route, e.g. 'GET /developer/v1/cycle/:id' */
+  routes: Record<string, RouteStats>;
 }
 
 // Performance Hooks
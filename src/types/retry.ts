@@ -0,0 +1,39 @@
+/**
+ * Retry Type Definitions
+ * Backoff and retry policy for failed requests
+ */
+
+// How random noise is applied to the exponential backoff delay
+export type RetryJitter = 'none' | 'full' | 'equal' | 'decorrelated';
+
+// Details passed to the onRetry callback before each retry
+export interface RetryContext {
+  /** Attempt that just failed, starting at 1 */
+  attempt: number;
+  /** Error thrown by the failed attempt */
+  error: unknown;
+  /** Delay before the next attempt in milliseconds */
+  delayMs: number;
+  /** Time spent since the first attempt started in milliseconds */
+  elapsedMs: number;
+}
+
+// Retry policy, set globally in the SDK config or per request
+export interface RetryPolicy {
+  /** Retries after the first attempt (default: 2) */
+  maxRetries?: number;
+  /** Delay before the first retry in milliseconds (default: 1000) */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay in milliseconds (default: 30000) */
+  maxDelayMs?: number;
+  /** Jitter strategy (default: 'equal') */
+  jitter?: RetryJitter;
+  /** HTTP statuses that are retried (default: 429, 500, 502, 503, 504) */
+  retryOnStatus?: number[];
+  /** Non-HTTP error classes that are retried (default: network and timeout errors) */
+  retryOn?: Array<abstract new (...args: any[]) => Error>;
+  /** Total time budget for all retries in milliseconds (default: unlimited) */
+  maxElapsedMs?: number;
+  /** Called before each retry, after the delay is chosen */
+  onRetry?: (context: RetryContext) => void | Promise<void>;
+}
\ No newline at end of file
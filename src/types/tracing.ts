@@ -0,0 +1,44 @@
+/**
+ * Tracing Type Definitions
+ * Minimal tracer interface matching the OpenTelemetry API shape, so an OpenTelemetry tracer can be passed directly
+ */
+
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+// Identifiers of a span, used for trace header propagation
+export interface WhoopSpanContext {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+}
+
+// Span status codes (OpenTelemetry SpanStatusCode: UNSET, OK, ERROR)
+export type SpanStatusCode = 0 | 1 | 2;
+
+// Unit of work recorded by the tracer
+export interface WhoopSpan {
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  addEvent(name: string, attributes?: SpanAttributes): unknown;
+  recordException(exception: Error | string): void;
+  setStatus(status: { code: SpanStatusCode; message?: string }): unknown;
+  end(): void;
+  /** Present on OpenTelemetry spans, enables W3C traceparent propagation */
+  spanContext?(): WhoopSpanContext;
+}
+
+// Span factory (OpenTelemetry Tracer compatible)
+export interface WhoopTracer {
+  startSpan(name: string, options?: { kind?: number; attributes?: SpanAttributes }): WhoopSpan;
+}
+
+// Tracing Configuration
+export interface TracingConfig {
+  tracer: WhoopTracer;
+  /**
+   * Add trace headers to outgoing requests (default: W3C traceparent from spanContext())
+   * Pass false to disable, or a function to inject custom headers
+   */
+  propagate?: boolean | ((span: WhoopSpan, headers: Record<string, string>) => void);
+}
\ No newline at end of file
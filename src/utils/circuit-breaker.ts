@@ -0,0 +1,254 @@
+/**
+ * Circuit Breaker
+ * Fails fast while the WHOOP API is degraded instead of piling up retries
+ */
+
+import type {
+  CircuitBreaker,
+  CircuitBreakerConfig,
+  CircuitBreakerStats,
+  CircuitResult,
+  CircuitState,
+  CircuitStats
+} from '../types';
+import { WhoopCircuitOpenError, WhoopNetworkError, WhoopTimeoutError } from '../errors';
+import { getRouteTemplate } from './http';
+
+interface Circuit {
+  state: CircuitState;
+  /** Outcomes in the rolling window, oldest first */
+  outcomes: Array<{ timestamp: number; failed: boolean }>;
+  openedAt?: number;
+  /** Trial requests in flight while half-open */
+  trialsInFlight: number;
+  /** Successful trial requests while half-open */
+  trialSuccesses: number;
+}
+
+/**
+ * Default failure classification: network errors, timeouts and server errors
+ */
+function isDefaultFailure(result: CircuitResult): boolean {
+  if ('status' in result) {
+    return result.status >= 500;
+  }
+  return result.error instanceof WhoopNetworkError || result.error instanceof WhoopTimeoutError;
+}
+
+/**
+ * Circuit breaker for WHOOP API requests
+ * Share one instance between per-user clients so they trip together
+ */
+export class WhoopCircuitBreaker implements CircuitBreaker {
+  private readonly config: Required<Omit<CircuitBreakerConfig, 'onStateChange'>> &
+    Pick<CircuitBreakerConfig, 'onStateChange'>;
+  private readonly circuits = new Map<string, Circuit>();
+
+  // Performance tracking
+  private stats = {
+    rejected: 0,
+    opened: 0
+  };
+
+  constructor(config: CircuitBreakerConfig = {}) {
+    this.config = {
+      scope: config.scope ?? 'host',
+      failureRateThreshold: config.failureRateThreshold ?? 0.5,
+      minimumRequests: config.minimumRequests ?? 10,
+      windowMs: config.windowMs ?? 60000,
+      cooldownMs: config.cooldownMs ?? 30000,
+      halfOpenMaxRequests: config.halfOpenMaxRequests ?? 1,
+      isFailure: config.isFailure ?? isDefaultFailure
+    };
+
+    if (config.onStateChange) {
+      this.config.onStateChange = config.onStateChange;
+    }
+  }
+
+  /**
+   * Key of the circuit guarding a request
+   */
+  getCircuitKey(method: string, url: string): string {
+    return this.config.scope === 'route'
+      ? `${method.toUpperCase()} ${getRouteTemplate(url)}`
+      : new URL(url).host;
+  }
+
+  /**
+   * Let a request through or fail fast with WhoopCircuitOpenError
+   */
+  acquire(key: string): void {
+    const circuit = this.getCircuit(key);
+    this.checkCooldown(key, circuit);
+
+    if (circuit.state === 'closed') {
+      return;
+    }
+
+    if (circuit.state === 'half-open' &&
+        circuit.trialsInFlight + circuit.trialSuccesses < this.config.halfOpenMaxRequests) {
+      circuit.trialsInFlight++;
+      return;
+    }
+
+    this.stats.rejected++;
+    const retryAfterMs = circuit.state === 'open'
+      ? Math.max(0, (circuit.openedAt ?? 0) + this.config.cooldownMs - Date.now())
+      : 0;
+
+    throw new WhoopCircuitOpenError(
+      `Circuit for ${key} is ${circuit.state}, WHOOP API calls are paused`,
+      key,
+      retryAfterMs
+    );
+  }
+
+  /**
+   * Record the outcome of an acquired request
+   */
+  record(key: string, result: CircuitResult): void {
+    const circuit = this.getCircuit(key);
+    const failed = this.config.isFailure(result);
+
+    if (circuit.state === 'half-open') {
+      circuit.trialsInFlight = Math.max(0, circuit.trialsInFlight - 1);
+
+      if (failed) {
+        this.transition(key, circuit, 'open');
+        return;
+      }
+
+      circuit.trialSuccesses++;
+      if (circuit.trialSuccesses >= this.config.halfOpenMaxRequests) {
+        this.transition(key, circuit, 'closed');
+      }
+      return;
+    }
+
+    // Late results from requests started before the circuit opened
+    if (circuit.state === 'open') {
+      return;
+    }
+
+    const now = Date.now();
+    circuit.outcomes.push({ timestamp: now, failed });
+    this.pruneOutcomes(circuit, now);
+
+    const { requests, failureRate } = summarize(circuit);
+    if (requests >= this.config.minimumRequests && failureRate >= this.config.failureRateThreshold) {
+      this.transition(key, circuit, 'open');
+    }
+  }
+
+  /**
+   * Give back an acquired request that ended without an outcome
+   */
+  release(key: string): void {
+    const circuit = this.circuits.get(key);
+    if (circuit?.state === 'half-open') {
+      circuit.trialsInFlight = Math.max(0, circuit.trialsInFlight - 1);
+    }
+  }
+
+  /**
+   * Get the current state of a circuit
+   */
+  getState(key: string): CircuitState {
+    const circuit = this.circuits.get(key);
+    if (!circuit) {
+      return 'closed';
+    }
+
+    this.checkCooldown(key, circuit);
+    return circuit.state;
+  }
+
+  /**
+   * Get circuit breaker statistics for performance monitoring
+   */
+  getStats(): CircuitBreakerStats {
+    const now = Date.now();
+    const circuits: Record<string, CircuitStats> = {};
+
+    for (const [key, circuit] of this.circuits) {
+      this.checkCooldown(key, circuit);
+      this.pruneOutcomes(circuit, now);
+
+      const summary: CircuitStats = { state: circuit.state, ...summarize(circuit) };
+      if (circuit.openedAt !== undefined) {
+        summary.openedAt = circuit.openedAt;
+      }
+      circuits[key] = summary;
+    }
+
+    return { ...this.stats, circuits };
+  }
+
+  /**
+   * Close all circuits and reset statistics
+   */
+  reset(): void {
+    this.circuits.clear();
+    this.stats = {
+      rejected: 0,
+      opened: 0
+    };
+  }
+
+  private getCircuit(key: string): Circuit {
+    let circuit = this.circuits.get(key);
+
+    if (!circuit) {
+      circuit = { state: 'closed', outcomes: [], trialsInFlight: 0, trialSuccesses: 0 };
+      this.circuits.set(key, circuit);
+    }
+
+    return circuit;
+  }
+
+  /**
+   * Move an open circuit to half-open once its cool-down has passed
+   */
+  private checkCooldown(key: string, circuit: Circuit): void {
+    if (circuit.state === 'open' && Date.now() - (circuit.openedAt ?? 0) >= this.config.cooldownMs) {
+      this.transition(key, circuit, 'half-open');
+    }
+  }
+
+  private pruneOutcomes(circuit: Circuit, now: number): void {
+    const cutoff = now - this.config.windowMs;
+    while (circuit.outcomes.length > 0 && circuit.outcomes[0]!.timestamp <= cutoff) {
+      circuit.outcomes.shift();
+    }
+  }
+
+  private transition(key: string, circuit: Circuit, to: CircuitState): void {
+    const from = circuit.state;
+    const { failureRate } = summarize(circuit);
+
+    circuit.state = to;
+    circuit.trialsInFlight = 0;
+    circuit.trialSuccesses = 0;
+
+    if (to === 'open') {
+      circuit.openedAt = Date.now();
+      this.stats.opened++;
+    } else if (to === 'closed') {
+      // Start the closed state with a clean window
+      circuit.outcomes = [];
+    }
+
+    try {
+      this.config.onStateChange?.({ circuit: key, from, to, failureRate, timestamp: Date.now() });
+    } catch {
+      // A faulty listener must never break API requests
+    }
+  }
+}
+
+function summarize(circuit: Circuit): { requests: number; failures: number; failureRate: number } {
+  const requests = circuit.outcomes.length;
+  const failures = circuit.outcomes.filter(outcome => outcome.failed).length;
+  return { requests, failures, failureRate: requests > 0 ? failures / requests : 0 };
+}
\ No newline at end of file
@@ -4,6 +4,7 @@
  */
 
 import type { RequestDedupe } from '../types';
+import { WhoopAbortError } from '../errors';
 
 interface PendingRequest<T> {
   promise: Promise<T>;
@@ -11,6 +12,7 @@ interface PendingRequest<T> {
   resolvers: Array<(value: T) => void>;
   rejectors: Array<(error: any) => void>;
   abortController?: AbortController;
+  subscribers: number;
 }
 
 interface BatchRequest {
@@ -51,18 +53,24 @@ export class RequestDeduplicator {
 
   /**
    * Execute request with deduplication
+   *
+   * The request function receives a signal owned by the deduplicator, so a
+   * caller aborting via `options.signal` only detaches that caller. The shared
+   * request is aborted once every attached caller has gone away.
    */
   async execute<T>(
     key: string,
-    requestFn: () => Promise<T>,
+    requestFn: (signal?: AbortSignal) => Promise<T>,
     options: {
       priority?: 'low' | 'normal' | 'high';
       skipDedup?: boolean;
       timeout?: number;
+      signal?: AbortSignal;
+      onJoin?: () => void;
     } = {}
   ): Promise<T> {
     if (!this.config.enabled || options.skipDedup) {
-      return requestFn();
+      return requestFn(options.signal);
     }
 
     // Check if we're at max concurrent requests
@@ -70,11 +78,12 @@ export class RequestDeduplicator {
       await this.waitForSlot();
     }
 
-    // Check for existing pending request
+    // Join the pending request for as long as it is in flight
     const existing = this.pendingRequests.get(key);
-    if (existing && this.isWithinWindow(existing.timestamp)) {
+    if (existing) {
       this.stats.dedupedRequests++;
-      return this.attachToExisting(existing);
+      options.onJoin?.();
+      return this.attachToExisting(key, existing, options.signal);
     }
 
     // Create new request
@@ -86,7 +95,8 @@ export class RequestDeduplicator {
       timestamp: Date.now(),
       resolvers: [],
       rejectors: [],
-      abortController
+      abortController,
+      subscribers: 0
     };
 
     this.pendingRequests.set(key, pendingRequest);
@@ -96,21 +106,21 @@ export class RequestDeduplicator {
       this.stats.concurrentRequests
     );
 
-    try {
-      const result = await promise;
-      
-      // Resolve any attached requests
-      pendingRequest.resolvers.forEach(resolve => resolve(result));
-      
-      return result;
-    } catch (error) {
-      // Reject any attached requests
-      pendingRequest.rejectors.forEach(reject => reject(error));
-      throw error;
-    } finally {
-      this.pendingRequests.delete(key);
-      this.stats.concurrentRequests--;
-    }
+    promise
+      .then(
+        // Resolve all attached requests
+        result => pendingRequest.resolvers.forEach(resolve => resolve(result)),
+        // Reject all attached requests
+        error => pendingRequest.rejectors.forEach(reject => reject(error))
+      )
+      .finally(() => {
+        if (this.pendingRequests.get(key) === pendingRequest) {
+          this.pendingRequests.delete(key);
+        }
+        this.stats.concurrentRequests--;
+      });
+
+    return this.attachToExisting(key, pendingRequest, options.signal);
   }
 
   /**
@@ -188,20 +198,41 @@ export class RequestDeduplicator {
     }
   }
 
-  /**
-   * Check if timestamp is within deduplication window
-   */
-  private isWithinWindow(timestamp: number): boolean {
-    return Date.now() - timestamp < this.config.windowMs;
-  }
-
   /**
    * Attach to existing request
    */
-  private attachToExisting<T>(existing: PendingRequest<T>): Promise<T> {
+  private attachToExisting<T>(key: string, existing: PendingRequest<T>, signal?: AbortSignal): Promise<T> {
     return new Promise((resolve, reject) => {
-      existing.resolvers.push(resolve);
-      existing.rejectors.push(reject);
+      if (signal?.aborted) {
+        reject(new WhoopAbortError('Request was cancelled', signal.reason));
+        return;
+      }
+
+      const onAbort = () => {
+        reject(new WhoopAbortError('Request was cancelled', signal?.reason));
+
+        // Only cancel the shared request when nobody is waiting on it anymore
+        existing.subscribers--;
+        if (existing.subscribers === 0) {
+          // Later callers must start a new request rather than join the aborted one
+          if (this.pendingRequests.get(key) === existing) {
+            this.pendingRequests.delete(key);
+          }
+          existing.abortController?.abort();
+        }
+      };
+
+      existing.subscribers++;
+      existing.resolvers.push(value => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(value);
+      });
+      existing.rejectors.push(error => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      });
+
+      signal?.addEventListener('abort', onAbort, { once: true });
     });
   }
 
@@ -209,17 +240,17 @@ export class RequestDeduplicator {
    * Execute request with performance metrics
    */
   private async executeWithMetrics<T>(
-    requestFn: () => Promise<T>,
+    requestFn: (signal?: AbortSignal) => Promise<T>,
     signal: AbortSignal
   ): Promise<T> {
     const startTime = Date.now();
     
     try {
-      const result = await requestFn();
+      const result = await requestFn(signal);
       return result;
     } catch (error) {
       if (signal.aborted) {
-        throw new Error('Request was cancelled');
+        throw new WhoopAbortError('Request was cancelled', signal.reason);
       }
       throw error;
     }
@@ -0,0 +1,98 @@
+/**
+ * Response Header Utilities
+ * Parsing for rate limit and Retry-After headers
+ */
+
+import type { RateLimitState } from '../types';
+
+// X-RateLimit-Reset values above this are epoch seconds rather than a delay
+const EPOCH_SECONDS_THRESHOLD = 1e9;
+
+/**
+ * Parse a Retry-After header in delay-seconds or HTTP-date form
+ * Returns the delay in milliseconds, never negative
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.ceil(parseFloat(trimmed) * 1000);
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, date - now);
+}
+
+/**
+ * Parse X-RateLimit-* and Retry-After response headers
+ * Returns undefined when the response carries none of them
+ */
+export function parseRateLimitHeaders(
+  headers: Headers | undefined,
+  now: number = Date.now()
+): RateLimitState | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  const limit = parseLeadingInteger(headers.get('x-ratelimit-limit'));
+  const remaining = parseLeadingInteger(headers.get('x-ratelimit-remaining'));
+  const reset = parseLeadingInteger(headers.get('x-ratelimit-reset'));
+  const retryAfterMs = parseRetryAfter(headers.get('retry-after'), now);
+
+  if (limit === undefined && remaining === undefined && reset === undefined && retryAfterMs === undefined) {
+    return undefined;
+  }
+
+  const state: RateLimitState = { observedAt: now };
+
+  if (limit !== undefined) {
+    state.limit = limit;
+  }
+  if (remaining !== undefined) {
+    state.remaining = remaining;
+  }
+  if (reset !== undefined) {
+    state.resetAt = reset > EPOCH_SECONDS_THRESHOLD ? reset * 1000 : now + reset * 1000;
+  }
+  if (retryAfterMs !== undefined) {
+    state.retryAfterMs = retryAfterMs;
+  }
+
+  return state;
+}
+
+/**
+ * Delay the server asked clients to wait, from Retry-After or an exhausted window
+ */
+export function getServerRetryDelay(state: RateLimitState | undefined, now: number = Date.now()): number | undefined {
+  if (!state) {
+    return undefined;
+  }
+
+  if (state.retryAfterMs !== undefined) {
+    return Math.max(0, state.observedAt + state.retryAfterMs - now);
+  }
+
+  if (state.remaining === 0 && state.resetAt !== undefined) {
+    return Math.max(0, state.resetAt - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * Read the first integer of a header, e.g. "100, 100;window=60" -> 100
+ */
+function parseLeadingInteger(value: string | null): number | undefined {
+  const match = value?.match(/^\s*(\d+)/);
+  return match?.[1] !== undefined ? parseInt(match[1], 10) : undefined;
+}
\ No newline at end of file
@@ -8,7 +8,7 @@ import type { RequestOptions, PaginatedResponse } from '../types';
 import type { PerformanceMetrics, OptimizationHints } from '../types';
 import { WhoopCache, generateCacheKey } from './cache';
 import { RequestDeduplicator, generateDedupKey } from './deduplication';
-import { buildUrl, createTimeoutSignal, combineSignals, getUserAgent } from './http';
+import { buildUrl, createTimeoutSignal, combineSignals, getRouteTemplate, getUserAgent } from './http';
 import { withRetry } from './retry';
 import { createErrorFromResponse } from '../errors/factory';
 
@@ -198,6 +198,7 @@ export class OptimizedHttpClient {
     options: RequestOptions & OptimizationHints = {}
   ): Promise<T> {
     const startTime = performance.now();
+    const requestId = Math.random().toString(36).substring(2, 15);
     this.metrics.totalRequests++;
 
     // Build full URL
@@ -241,13 +242,20 @@ export class OptimizedHttpClient {
     const duration = endTime - startTime;
     
     const metrics: PerformanceMetrics = {
+      requestId,
+      method,
+      url,
+      route: getRouteTemplate(url),
+      success: true,
       startTime,
       endTime,
       duration,
       responseSize: this.estimateSize(result),
       cacheStatus: method === 'GET' ? 'miss' : 'skip',
       retryCount: 0,
-      errorCount: 0
+      errorCount: 0,
+      deduplicated: false,
+      rateLimitWaitMs: 0
     };
 
     // Track slow requests
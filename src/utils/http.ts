@@ -3,6 +3,9 @@
  * HTTP request and response handling utilities
  */
 
+import type { WhoopFetch } from '../types';
+import { WhoopConfigError } from '../errors';
+
 /**
  * Default base URL for WHOOP API
  */
@@ -31,6 +34,50 @@ export function buildUrl(baseUrl: string, path: string, params?: Record<string,
   return url.toString();
 }
 
+// Path segments that identify a resource rather than a route
+const ID_SEGMENT_PATTERN = /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i;
+
+/**
+ * Reduce a request URL to its route, e.g. /v1/cycle/123/recovery -> /v1/cycle/:id/recovery
+ */
+export function getRouteTemplate(url: string): string {
+  const { pathname } = new URL(url);
+  return pathname
+    .split('/')
+    .map(segment => ID_SEGMENT_PATTERN.test(segment) ? ':id' : segment)
+    .join('/');
+}
+
+/**
+ * Resolve the fetch implementation to use for a request
+ * Falls back to the global fetch, which Node.js only provides from v18
+ */
+export function resolveFetch(customFetch?: WhoopFetch): WhoopFetch {
+  if (customFetch) {
+    return customFetch;
+  }
+
+  const globalFetch = (globalThis as any).fetch as WhoopFetch | undefined;
+  if (typeof globalFetch !== 'function') {
+    throw new WhoopConfigError(
+      'No fetch implementation available. Pass `fetch` in the SDK config (e.g. from undici or node-fetch).'
+    );
+  }
+
+  return (url, init) => globalFetch(url, init);
+}
+
+/**
+ * Copy response headers into a plain object with lower-case names
+ */
+export function headersToObject(headers: Headers | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  headers?.forEach((value, key) => {
+    result[key.toLowerCase()] = value;
+  });
+  return result;
+}
+
 /**
  * Create timeout signal
  */
@@ -40,6 +87,28 @@ export function createTimeoutSignal(timeoutMs: number): AbortSignal {
   return controller.signal;
 }
 
+/**
+ * Create a clearable timeout signal that tells timeouts apart from other aborts
+ */
+export function createRequestTimeout(timeoutMs: number): {
+  signal: AbortSignal;
+  timedOut: () => boolean;
+  clear: () => void;
+} {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    clear: () => clearTimeout(timer)
+  };
+}
+
 /**
  * Combine multiple abort signals
  */
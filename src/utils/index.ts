@@ -8,6 +8,7 @@ export * from './validation';
 
 // Re-export all HTTP utilities
 export * from './http';
+export * from './headers';
 
 // Re-export all retry utilities  
 export * from './retry';
@@ -15,7 +16,20 @@ export * from './retry';
 // Re-export all conversion utilities
 export * from './conversion';
 
+// Re-export response schema utilities
+export * from './schema';
+
+// Re-export logging utilities
+export * from './logger';
+
+// Re-export tracing utilities
+export * from './tracing';
+
 // Re-export all performance utilities
 export * from './cache';
 export * from './deduplication';
+export * from './rate-limiter';
+export * from './circuit-breaker';
+export * from './metrics';
+export * from './prometheus';
 export * from './http-client'; 
\ No newline at end of file
@@ -0,0 +1,167 @@
+/**
+ * Logging Utilities
+ * Level filtering and redaction for the pluggable SDK logger
+ */
+
+import type { LogFields, LogLevel, WhoopLogger } from '../types';
+
+const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100
+};
+
+const REDACTED = '[REDACTED]';
+
+// Field names whose values must never reach a log pipeline
+const SENSITIVE_KEY_PATTERN =
+  /(access_?token|refresh_?token|id_?token|^token$|token_?prefix|secret|password|authorization|cookie|^code$|code_?prefix|code_?verifier|email|first_?name|last_?name)/i;
+
+// Credentials embedded in free-form strings such as URLs and headers
+const BEARER_PATTERN = /(Bearer\s+)[^\s"',]+/gi;
+const SENSITIVE_QUERY_PATTERN =
+  /([?&](?:code|code_verifier|client_secret|access_token|refresh_token|token)=)[^&#\s"']+/gi;
+
+const MAX_REDACTION_DEPTH = 5;
+
+/**
+ * Logger that discards everything (SDK default)
+ */
+export const silentLogger: WhoopLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {}
+};
+
+/**
+ * Logger that writes to the console, useful during local development
+ */
+export const consoleLogger: WhoopLogger = {
+  debug: (message, fields) => console.debug(`[WHOOP-SDK] ${message}`, fields ?? ''),
+  info: (message, fields) => console.info(`[WHOOP-SDK] ${message}`, fields ?? ''),
+  warn: (message, fields) => console.warn(`[WHOOP-SDK] ${message}`, fields ?? ''),
+  error: (message, fields) => console.error(`[WHOOP-SDK] ${message}`, fields ?? '')
+};
+
+/**
+ * SDK-internal logger wrapper
+ * Filters by level, attaches context fields and redacts secrets and PII
+ */
+export class SDKLogger implements WhoopLogger {
+  constructor(
+    private readonly target: WhoopLogger,
+    private readonly level: LogLevel,
+    private readonly context: LogFields = {}
+  ) {}
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  /**
+   * Create a logger that adds extra context fields to every entry
+   */
+  child(fields: LogFields): SDKLogger {
+    return new SDKLogger(this.target, this.level, { ...this.context, ...fields });
+  }
+
+  /**
+   * Check whether entries at the given level are emitted
+   */
+  isLevelEnabled(level: Exclude<LogLevel, 'silent'>): boolean {
+    return LOG_LEVEL_PRIORITY[level] >= LOG_LEVEL_PRIORITY[this.level];
+  }
+
+  private write(level: Exclude<LogLevel, 'silent'>, message: string, fields?: LogFields): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    try {
+      this.target[level](redactString(message), redactFields({ ...this.context, ...fields }));
+    } catch {
+      // A faulty logger must never break API requests
+    }
+  }
+}
+
+/**
+ * Create an SDK logger for a component
+ * Without a user-supplied logger nothing is emitted
+ */
+export function createLogger(options: {
+  logger?: WhoopLogger | undefined;
+  level?: LogLevel | undefined;
+  component: string;
+}): SDKLogger {
+  if (!options.logger) {
+    return new SDKLogger(silentLogger, 'silent', { component: options.component });
+  }
+
+  return new SDKLogger(options.logger, options.level ?? 'info', { component: options.component });
+}
+
+/**
+ * Redact sensitive values from structured log fields
+ */
+export function redactFields(fields: LogFields): LogFields {
+  return redactValue(fields, 0) as LogFields;
+}
+
+/**
+ * Redact credentials embedded in a string
+ */
+export function redactString(value: string): string {
+  return value
+    .replace(BEARER_PATTERN, `$1${REDACTED}`)
+    .replace(SENSITIVE_QUERY_PATTERN, `$1${REDACTED}`);
+}
+
+function redactValue(value: unknown, depth: number): unknown {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message) };
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (depth >= MAX_REDACTION_DEPTH) {
+    return '[Object]';
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, depth + 1));
+  }
+
+  const result: LogFields = {};
+  for (const [key, entry] of Object.entries(value)) {
+    // Lengths, flags and counts are safe to keep even for sensitive keys
+    const isSensitive = SENSITIVE_KEY_PATTERN.test(key) &&
+      entry !== undefined && entry !== null &&
+      typeof entry !== 'boolean' && typeof entry !== 'number';
+
+    result[key] = isSensitive ? REDACTED : redactValue(entry, depth + 1);
+  }
+
+  return result;
+}
\ No newline at end of file
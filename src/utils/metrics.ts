@@ -0,0 +1,219 @@
+/**
+ * Request Metrics
+ * Aggregates per-request PerformanceMetrics into totals, per-route counts and latency percentiles
+ */
+
+import type {
+  LatencyHistogram,
+  LatencyPercentiles,
+  PerformanceMetrics,
+  RequestStats,
+  RouteStats
+} from '../types';
+
+/**
+ * Default latency bucket upper bounds in milliseconds
+ */
+export const DEFAULT_LATENCY_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000];
+
+/**
+ * Fixed-bucket latency histogram
+ * Memory stays constant however many requests are recorded, percentiles are interpolated within a bucket
+ */
+export class LatencyRecorder {
+  private readonly counts: number[];
+  private count = 0;
+  private sum = 0;
+  private max = 0;
+
+  constructor(private readonly bounds: number[] = DEFAULT_LATENCY_BUCKETS) {
+    this.counts = new Array<number>(bounds.length + 1).fill(0);
+  }
+
+  /**
+   * Record one duration in milliseconds
+   */
+  observe(durationMs: number): void {
+    const index = this.bounds.findIndex(bound => durationMs <= bound);
+    const bucket = index === -1 ? this.bounds.length : index;
+
+    this.counts[bucket] = (this.counts[bucket] ?? 0) + 1;
+    this.count++;
+    this.sum += durationMs;
+    this.max = Math.max(this.max, durationMs);
+  }
+
+  /**
+   * Estimate the duration below which the given share (0-1) of requests completed
+   */
+  percentile(quantile: number): number {
+    if (this.count === 0) {
+      return 0;
+    }
+
+    const rank = quantile * this.count;
+    let cumulative = 0;
+
+    for (let i = 0; i < this.counts.length; i++) {
+      const bucketCount = this.counts[i] ?? 0;
+      if (bucketCount === 0 || cumulative + bucketCount < rank) {
+        cumulative += bucketCount;
+        continue;
+      }
+
+      const lower = i === 0 ? 0 : this.bounds[i - 1]!;
+      const upper = Math.min(this.bounds[i] ?? this.max, this.max);
+      const estimate = lower + (upper - lower) * ((rank - cumulative) / bucketCount);
+      return Math.round(Math.min(Math.max(estimate, lower), upper) * 100) / 100;
+    }
+
+    return this.max;
+  }
+
+  getPercentiles(): LatencyPercentiles {
+    return {
+      p50: this.percentile(0.5),
+      p90: this.percentile(0.9),
+      p99: this.percentile(0.99)
+    };
+  }
+
+  getHistogram(): LatencyHistogram {
+    let cumulative = 0;
+    const buckets = [...this.bounds, Infinity].map((le, i) => {
+      cumulative += this.counts[i] ?? 0;
+      return { le, count: cumulative };
+    });
+
+    return { buckets, count: this.count, sum: this.sum };
+  }
+}
+
+interface RouteEntry {
+  requests: number;
+  failedRequests: number;
+  totalDuration: number;
+  latency: LatencyRecorder;
+}
+
+/**
+ * Collects completed request metrics for getPerformanceStats()
+ */
+export class RequestMetricsCollector {
+  private readonly slowRequestThreshold: number;
+  private routes = new Map<string, RouteEntry>();
+  private latency = new LatencyRecorder();
+
+  private stats = {
+    completedRequests: 0,
+    failedRequests: 0,
+    retries: 0,
+    slowRequests: 0,
+    totalDuration: 0
+  };
+
+  constructor(config: { slowRequestThreshold?: number } = {}) {
+    this.slowRequestThreshold = config.slowRequestThreshold ?? 2000;
+  }
+
+  /**
+   * Whether a request took longer than the slow request threshold
+   */
+  isSlow(metrics: PerformanceMetrics): boolean {
+    return metrics.duration > this.slowRequestThreshold;
+  }
+
+  /**
+   * Record a completed request
+   */
+  record(metrics: PerformanceMetrics): void {
+    this.stats.completedRequests++;
+    this.stats.retries += metrics.retryCount;
+    this.stats.totalDuration += metrics.duration;
+    this.latency.observe(metrics.duration);
+
+    if (!metrics.success) {
+      this.stats.failedRequests++;
+    }
+    if (this.isSlow(metrics)) {
+      this.stats.slowRequests++;
+    }
+
+    const key = `${metrics.method.toUpperCase()} ${metrics.route}`;
+    let route = this.routes.get(key);
+    if (!route) {
+      route = { requests: 0, failedRequests: 0, totalDuration: 0, latency: new LatencyRecorder() };
+      this.routes.set(key, route);
+    }
+
+    route.requests++;
+    route.totalDuration += metrics.duration;
+    route.latency.observe(metrics.duration);
+    if (!metrics.success) {
+      route.failedRequests++;
+    }
+  }
+
+  getStats(): RequestStats {
+    const { completedRequests, failedRequests, retries, slowRequests, totalDuration } = this.stats;
+    const routes: Record<string, RouteStats> = {};
+
+    for (const [key, route] of this.routes) {
+      routes[key] = {
+        requests: route.requests,
+        failedRequests: route.failedRequests,
+        errorRate: ratio(route.failedRequests, route.requests),
+        avgResponseTime: ratio(route.totalDuration, route.requests),
+        latency: route.latency.getPercentiles()
+      };
+    }
+
+    return {
+      completedRequests,
+      failedRequests,
+      errorRate: ratio(failedRequests, completedRequests),
+      retries,
+      slowRequests,
+      avgResponseTime: ratio(totalDuration, completedRequests),
+      latency: this.latency.getPercentiles(),
+      histogram: this.latency.getHistogram(),
+      routes
+    };
+  }
+
+  /**
+   * Reset all statistics
+   */
+  reset(): void {
+    this.routes = new Map();
+    this.latency = new LatencyRecorder();
+    this.stats = {
+      completedRequests: 0,
+      failedRequests: 0,
+      retries: 0,
+      slowRequests: 0,
+      totalDuration: 0
+    };
+  }
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+/**
+ * Response size in bytes, from Content-Length when present or the parsed body otherwise
+ */
+export function getResponseSize(contentLength: string | null, body: unknown): number | undefined {
+  const declared = Number(contentLength);
+  if (contentLength !== null && Number.isFinite(declared) && declared >= 0) {
+    return declared;
+  }
+
+  try {
+    const text = typeof body === 'string' ? body : JSON.stringify(body);
+    return text === undefined ? undefined : new TextEncoder().encode(text).length;
+  } catch {
+    return undefined;
+  }
+}
\ No newline at end of file
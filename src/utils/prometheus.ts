@@ -0,0 +1,203 @@
+/**
+ * Prometheus Exporter
+ * Collects telemetry from SDK clients and renders it in the Prometheus text exposition format
+ */
+
+import type { MetricsRecorder, PerformanceMetrics, PrometheusExporterConfig } from '../types';
+import { DEFAULT_LATENCY_BUCKETS, LatencyRecorder } from './metrics';
+
+/**
+ * Content type of the Prometheus text exposition format
+ */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+type Labels = Record<string, string>;
+
+/**
+ * Counter with one value per label set
+ */
+class LabeledCounter {
+  private readonly values = new Map<string, { labels: Labels; value: number }>();
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = JSON.stringify(labels);
+    const entry = this.values.get(key);
+
+    if (entry) {
+      entry.value += amount;
+    } else {
+      this.values.set(key, { labels, value: amount });
+    }
+  }
+
+  entries(): Array<{ labels: Labels; value: number }> {
+    return [...this.values.values()];
+  }
+}
+
+/**
+ * Prometheus exporter for SDK telemetry
+ * Share one instance between SDK clients through `performance.metrics` and serve render() from a metrics route
+ */
+export class PrometheusExporter implements MetricsRecorder {
+  private readonly prefix: string;
+  private readonly buckets: number[];
+  private readonly labels: Labels;
+
+  private requests = new LabeledCounter();
+  private retries = new LabeledCounter();
+  private durations = new Map<string, { labels: Labels; recorder: LatencyRecorder }>();
+  private tokenRefreshes = createTokenRefreshCounter();
+  private counters = {
+    cacheHits: 0,
+    cacheMisses: 0,
+    deduplicated: 0,
+    rateLimitWaits: 0,
+    rateLimitWaitMs: 0
+  };
+
+  constructor(config: PrometheusExporterConfig = {}) {
+    this.prefix = config.prefix ?? 'whoop_sdk';
+    this.buckets = config.buckets ?? DEFAULT_LATENCY_BUCKETS;
+    this.labels = config.labels ?? {};
+  }
+
+  /**
+   * Record a completed request
+   */
+  recordRequest(metrics: PerformanceMetrics): void {
+    const route = { method: metrics.method.toUpperCase(), route: metrics.route };
+
+    this.requests.inc({ ...route, status: metrics.status === undefined ? 'none' : String(metrics.status) });
+    if (metrics.retryCount > 0) {
+      this.retries.inc(route, metrics.retryCount);
+    }
+
+    const key = JSON.stringify(route);
+    let duration = this.durations.get(key);
+    if (!duration) {
+      duration = { labels: route, recorder: new LatencyRecorder(this.buckets) };
+      this.durations.set(key, duration);
+    }
+    duration.recorder.observe(metrics.duration);
+
+    if (metrics.cacheStatus === 'hit') {
+      this.counters.cacheHits++;
+    } else if (metrics.cacheStatus === 'miss') {
+      this.counters.cacheMisses++;
+    }
+    if (metrics.deduplicated) {
+      this.counters.deduplicated++;
+    }
+    if (metrics.rateLimitWaitMs > 0) {
+      this.counters.rateLimitWaits++;
+      this.counters.rateLimitWaitMs += metrics.rateLimitWaitMs;
+    }
+  }
+
+  /**
+   * Record a token refresh
+   */
+  recordTokenRefresh(outcome: 'success' | 'failure'): void {
+    this.tokenRefreshes.inc({ outcome });
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format
+   */
+  render(): string {
+    const lines: string[] = [];
+    const name = (metric: string) => `${this.prefix}_${metric}`;
+
+    const header = (metric: string, type: 'counter' | 'histogram', help: string) => {
+      lines.push(`# HELP ${name(metric)} ${help}`, `# TYPE ${name(metric)} ${type}`);
+    };
+    const sample = (metric: string, labels: Labels, value: number) => {
+      lines.push(`${name(metric)}${this.formatLabels(labels)} ${formatValue(value)}`);
+    };
+    const counter = (metric: string, help: string, entries: Array<{ labels: Labels; value: number }>) => {
+      header(metric, 'counter', help);
+      entries.forEach(entry => sample(metric, entry.labels, entry.value));
+    };
+
+    counter('requests_total', 'WHOOP API requests by route and final status', this.requests.entries());
+
+    header('request_duration_seconds', 'histogram', 'WHOOP API request duration in seconds, including retries');
+    for (const { labels, recorder } of this.durations.values()) {
+      const histogram = recorder.getHistogram();
+      for (const bucket of histogram.buckets) {
+        sample('request_duration_seconds_bucket', { ...labels, le: formatBound(bucket.le) }, bucket.count);
+      }
+      sample('request_duration_seconds_sum', labels, histogram.sum / 1000);
+      sample('request_duration_seconds_count', labels, histogram.count);
+    }
+
+    counter('retries_total', 'WHOOP API request retries by route', this.retries.entries());
+    counter('token_refreshes_total', 'OAuth token refreshes by outcome', this.tokenRefreshes.entries());
+    counter('cache_hits_total', 'Requests served from the response cache', [{ labels: {}, value: this.counters.cacheHits }]);
+    counter('cache_misses_total', 'Cacheable requests not found in the response cache', [{ labels: {}, value: this.counters.cacheMisses }]);
+    counter('deduplicated_requests_total', 'Requests that joined an identical in-flight request', [{ labels: {}, value: this.counters.deduplicated }]);
+    counter('rate_limit_waits_total', 'Requests delayed by the client-side rate limiter', [{ labels: {}, value: this.counters.rateLimitWaits }]);
+    counter('rate_limit_wait_seconds_total', 'Time spent waiting for the client-side rate limiter', [{ labels: {}, value: this.counters.rateLimitWaitMs / 1000 }]);
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Request handler serving render(), e.g. app.get('/metrics', exporter.handler())
+   * Works with Express and the Node.js http module
+   */
+  handler(): (req: unknown, res: { setHeader(name: string, value: string): unknown; end(body: string): unknown }) => void {
+    return (_req, res) => {
+      res.setHeader('Content-Type', PROMETHEUS_CONTENT_TYPE);
+      res.end(this.render());
+    };
+  }
+
+  /**
+   * Reset all metrics
+   */
+  reset(): void {
+    this.requests = new LabeledCounter();
+    this.retries = new LabeledCounter();
+    this.durations = new Map();
+    this.tokenRefreshes = createTokenRefreshCounter();
+    this.counters = {
+      cacheHits: 0,
+      cacheMisses: 0,
+      deduplicated: 0,
+      rateLimitWaits: 0,
+      rateLimitWaitMs: 0
+    };
+  }
+
+  private formatLabels(labels: Labels): string {
+    const entries = Object.entries({ ...this.labels, ...labels });
+    if (entries.length === 0) {
+      return '';
+    }
+    return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+  }
+}
+
+/**
+ * Token refresh counter reporting both outcomes from the start
+ */
+function createTokenRefreshCounter(): LabeledCounter {
+  const counter = new LabeledCounter();
+  counter.inc({ outcome: 'success' }, 0);
+  counter.inc({ outcome: 'failure' }, 0);
+  return counter;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatBound(boundMs: number): string {
+  return boundMs === Infinity ? '+Inf' : formatValue(boundMs / 1000);
+}
+
+function formatValue(value: number): string {
+  return Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : value < 0 ? '-Inf' : 'NaN';
+}
\ No newline at end of file
@@ -0,0 +1,274 @@
+/**
+ * Client-Side Rate Limiter
+ * Sliding-window limiter that keeps requests within WHOOP's per-minute and per-day quotas
+ */
+
+import type {
+  RateLimitBudget,
+  RateLimitConfig,
+  RateLimiter,
+  RateLimiterStats,
+  RateLimitRemaining
+} from '../types';
+import { WhoopClientRateLimitError } from '../errors';
+import { sleep } from './retry';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Idle user windows are pruned once this many users are tracked
+const MAX_TRACKED_USERS = 1000;
+
+/**
+ * WHOOP's default developer quotas
+ */
+export const DEFAULT_RATE_LIMITS: Required<RateLimitBudget> = {
+  requestsPerMinute: 100,
+  requestsPerDay: 10000
+};
+
+type RateLimitScope = 'app' | 'user';
+type RateLimitWindow = 'minute' | 'day';
+
+/**
+ * Sliding window for a single quota
+ *
+ * Remembers when each request in the last window was sent, so no span of windowMs
+ * ever holds more than the limit, whichever moment WHOOP's own window resets at.
+ */
+class SlidingWindow {
+  private sentAt: number[] = [];
+
+  constructor(
+    readonly scope: RateLimitScope,
+    readonly window: RateLimitWindow,
+    readonly capacity: number,
+    private readonly windowMs: number
+  ) {}
+
+  /**
+   * Milliseconds until the oldest request leaves the window and frees a slot
+   */
+  waitTime(): number {
+    this.prune();
+    const oldest = this.sentAt[this.sentAt.length - this.capacity];
+    return oldest === undefined ? 0 : oldest + this.windowMs - Date.now();
+  }
+
+  take(): void {
+    this.sentAt.push(Date.now());
+  }
+
+  remaining(): number {
+    this.prune();
+    return Math.max(0, this.capacity - this.sentAt.length);
+  }
+
+  isIdle(): boolean {
+    this.prune();
+    return this.sentAt.length === 0;
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.windowMs;
+    const expired = this.sentAt.findIndex(time => time > cutoff);
+    if (expired === -1) {
+      this.sentAt = [];
+    } else if (expired > 0) {
+      this.sentAt.splice(0, expired);
+    }
+  }
+}
+
+/**
+ * Rate limiter for WHOOP API requests
+ * Share one instance between SDK clients to enforce a single app-wide budget
+ */
+export class WhoopRateLimiter implements RateLimiter {
+  private readonly config: {
+    strategy: 'queue' | 'reject';
+    maxWaitMs: number;
+    user?: RateLimitBudget;
+  };
+  private readonly appWindows: SlidingWindow[];
+  private readonly userWindows = new Map<string, SlidingWindow[]>();
+
+  // Performance tracking
+  private stats = {
+    acquired: 0,
+    queued: 0,
+    rejected: 0,
+    totalWaitMs: 0
+  };
+
+  constructor(config: RateLimitConfig = {}) {
+    this.config = {
+      strategy: config.strategy ?? 'queue',
+      maxWaitMs: config.maxWaitMs ?? 60000
+    };
+
+    if (config.user) {
+      this.config.user = config.user;
+    }
+
+    this.appWindows = createWindows('app', config.app ?? DEFAULT_RATE_LIMITS);
+  }
+
+  /**
+   * Reserve budget for one request, waiting for it when the strategy allows
+   * Resolves with the time spent waiting in milliseconds
+   */
+  async acquire(userKey?: string, signal?: AbortSignal): Promise<number> {
+    const windows = this.getWindows(userKey);
+    let waitedMs = 0;
+
+    for (;;) {
+      const blocking = findBlockingWindow(windows);
+
+      if (!blocking) {
+        windows.forEach(limit => limit.take());
+        this.stats.acquired++;
+        return waitedMs;
+      }
+
+      const waitMs = blocking.waitTime();
+
+      if (this.config.strategy === 'reject' || waitedMs + waitMs > this.config.maxWaitMs) {
+        this.stats.rejected++;
+        throw new WhoopClientRateLimitError(
+          `Client-side ${blocking.scope} rate limit of ${blocking.capacity} requests per ${blocking.window} reached`,
+          blocking.scope,
+          blocking.window,
+          waitMs
+        );
+      }
+
+      if (waitedMs === 0) {
+        this.stats.queued++;
+      }
+
+      await sleep(waitMs, signal);
+      waitedMs += waitMs;
+      this.stats.totalWaitMs += waitMs;
+    }
+  }
+
+  /**
+   * Remaining budget for the app and, optionally, a user
+   */
+  getRemaining(userKey?: string): RateLimiterStats['remaining'] {
+    const result: RateLimiterStats['remaining'] = {
+      app: summarizeWindows(this.appWindows)
+    };
+
+    if (userKey && this.config.user) {
+      // Users without requests yet have their full budget, reading it must not start tracking them
+      result.user = summarizeWindows(this.userWindows.get(userKey) ?? createWindows('user', this.config.user));
+    }
+
+    return result;
+  }
+
+  /**
+   * Get rate limiter statistics for performance monitoring
+   */
+  getStats(userKey?: string): RateLimiterStats {
+    return {
+      ...this.stats,
+      strategy: this.config.strategy,
+      trackedUsers: this.userWindows.size,
+      remaining: this.getRemaining(userKey)
+    };
+  }
+
+  /**
+   * Reset all budgets and statistics
+   */
+  reset(): void {
+    this.userWindows.clear();
+    this.appWindows.splice(0, this.appWindows.length,
+      ...this.appWindows.map(limit => createWindow('app', limit.window, limit.capacity)));
+
+    this.stats = {
+      acquired: 0,
+      queued: 0,
+      rejected: 0,
+      totalWaitMs: 0
+    };
+  }
+
+  private getWindows(userKey?: string): SlidingWindow[] {
+    if (!userKey || !this.config.user) {
+      return this.appWindows;
+    }
+    return [...this.appWindows, ...this.getUserWindows(userKey)];
+  }
+
+  private getUserWindows(userKey: string): SlidingWindow[] {
+    let windows = this.userWindows.get(userKey);
+
+    if (!windows) {
+      if (this.userWindows.size >= MAX_TRACKED_USERS) {
+        this.pruneIdleUsers();
+      }
+      windows = createWindows('user', this.config.user ?? {});
+      this.userWindows.set(userKey, windows);
+    }
+
+    return windows;
+  }
+
+  /**
+   * Drop user windows without recent requests, they hold no state worth keeping
+   */
+  private pruneIdleUsers(): void {
+    for (const [key, windows] of this.userWindows) {
+      if (windows.every(limit => limit.isIdle())) {
+        this.userWindows.delete(key);
+      }
+    }
+  }
+}
+
+function createWindows(scope: RateLimitScope, budget: RateLimitBudget): SlidingWindow[] {
+  const windows: SlidingWindow[] = [];
+
+  if (budget.requestsPerMinute) {
+    windows.push(createWindow(scope, 'minute', budget.requestsPerMinute));
+  }
+  if (budget.requestsPerDay) {
+    windows.push(createWindow(scope, 'day', budget.requestsPerDay));
+  }
+
+  return windows;
+}
+
+function createWindow(scope: RateLimitScope, window: RateLimitWindow, capacity: number): SlidingWindow {
+  return new SlidingWindow(scope, window, capacity, window === 'minute' ? MINUTE_MS : DAY_MS);
+}
+
+/**
+ * Find the window that keeps the request waiting longest, if any
+ */
+function findBlockingWindow(windows: SlidingWindow[]): SlidingWindow | undefined {
+  let blocking: SlidingWindow | undefined;
+  let longestWait = 0;
+
+  for (const limit of windows) {
+    const waitMs = limit.waitTime();
+    if (waitMs > longestWait) {
+      longestWait = waitMs;
+      blocking = limit;
+    }
+  }
+
+  return blocking;
+}
+
+function summarizeWindows(windows: SlidingWindow[]): RateLimitRemaining {
+  const summary: RateLimitRemaining = {};
+  for (const limit of windows) {
+    summary[limit.window] = limit.remaining();
+  }
+  return summary;
+}
\ No newline at end of file
@@ -3,44 +3,122 @@
  * Retry logic with exponential backoff and error handling
  */
 
-import { getRetryInfo } from '../errors';
+import type { RetryJitter, RetryPolicy } from '../types';
+import {
+  getRetryInfo,
+  isWhoopAPIError,
+  WhoopAbortError,
+  WhoopNetworkError,
+  WhoopTimeoutError
+} from '../errors';
 
 /**
- * Sleep utility for delays
+ * Sleep utility for delays, cut short when the signal aborts
  */
-export const sleep = (ms: number): Promise<void> => 
-  new Promise(resolve => setTimeout(resolve, ms));
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => 
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new WhoopAbortError('Request aborted', signal?.reason));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new WhoopAbortError('Request aborted', signal?.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Default retry policy
+ */
+export const DEFAULT_RETRY_POLICY = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: 'equal' as RetryJitter,
+  retryOnStatus: [429, 500, 502, 503, 504],
+  retryOn: [WhoopNetworkError, WhoopTimeoutError] as NonNullable<RetryPolicy['retryOn']>
+};
+
+/**
+ * Check whether an error should be retried under a policy
+ */
+export function isRetryableError(error: unknown, policy: RetryPolicy = {}): boolean {
+  if (isWhoopAPIError(error)) {
+    return (policy.retryOnStatus ?? DEFAULT_RETRY_POLICY.retryOnStatus).includes(error.status);
+  }
+
+  return (policy.retryOn ?? DEFAULT_RETRY_POLICY.retryOn).some(errorClass => error instanceof errorClass);
+}
+
+/**
+ * Calculate the backoff delay before retrying a failed attempt
+ * Decorrelated jitter grows from the previous delay rather than the attempt number
+ */
+export function calculateRetryDelay(attempt: number, policy: RetryPolicy = {}, previousDelayMs?: number): number {
+  const baseDelayMs = policy.baseDelayMs ?? DEFAULT_RETRY_POLICY.baseDelayMs;
+  const maxDelayMs = policy.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs;
+  const exponentialDelay = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt - 1));
+
+  switch (policy.jitter ?? DEFAULT_RETRY_POLICY.jitter) {
+    case 'none':
+      return exponentialDelay;
+    case 'full':
+      return Math.random() * exponentialDelay;
+    case 'decorrelated': {
+      const upper = (previousDelayMs ?? baseDelayMs) * 3;
+      return Math.min(maxDelayMs, baseDelayMs + Math.random() * Math.max(0, upper - baseDelayMs));
+    }
+    case 'equal':
+    default:
+      return exponentialDelay * (0.5 + Math.random() * 0.5);
+  }
+}
 
 /**
  * Retry function with exponential backoff
+ * The attempt number, starting at 1, is passed to fn
  */
 export async function withRetry<T>(
-  fn: () => Promise<T>,
-  options: {
+  fn: (attempt: number) => Promise<T>,
+  options: RetryPolicy & {
+    /** Total attempts including the first, takes precedence over maxRetries */
     maxAttempts?: number;
-    baseDelayMs?: number;
-    maxDelayMs?: number;
     signal?: AbortSignal;
   } = {}
 ): Promise<T> {
   const {
-    maxAttempts = 3,
-    baseDelayMs = 1000,
-    maxDelayMs = 30000,
+    maxAttempts = (options.maxRetries ?? DEFAULT_RETRY_POLICY.maxRetries) + 1,
+    maxDelayMs = DEFAULT_RETRY_POLICY.maxDelayMs,
+    maxElapsedMs,
+    onRetry,
     signal
   } = options;
 
+  const startTime = Date.now();
+  let previousDelayMs: number | undefined;
   let lastError: Error;
 
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
     if (signal?.aborted) {
-      throw new Error('Request aborted');
+      throw new WhoopAbortError('Request aborted', signal.reason);
     }
 
     try {
-      return await fn();
+      return await fn(attempt);
     } catch (error) {
       lastError = error as Error;
+
+      // Cancellation ends the request, whatever the attempt failed with
+      if (signal?.aborted) {
+        throw error instanceof WhoopAbortError ? error : new WhoopAbortError('Request aborted', signal.reason);
+      }
       
       // Don't retry on last attempt
       if (attempt === maxAttempts) {
@@ -48,22 +126,35 @@ export async function withRetry<T>(
       }
 
       // Check if error is retryable
-      const retryInfo = getRetryInfo(error);
-      if (!retryInfo.canRetry) {
+      if (!isRetryableError(error, options)) {
         break;
       }
 
-      // Calculate delay with exponential backoff
-      const exponentialDelay = baseDelayMs * Math.pow(2, attempt - 1);
-      const jitteredDelay = exponentialDelay * (0.5 + Math.random() * 0.5);
-      const finalDelay = Math.min(
-        retryInfo.delayMs || jitteredDelay,
-        maxDelayMs
-      );
+      let delayMs: number;
+      const retryInfo = getRetryInfo(error);
+
+      if (retryInfo.serverRequested && retryInfo.delayMs !== undefined) {
+        // Retrying before the server's requested delay only earns another 429,
+        // so give up instead when it is longer than we are willing to wait
+        if (retryInfo.delayMs > maxDelayMs) {
+          break;
+        }
+        delayMs = retryInfo.delayMs;
+      } else {
+        delayMs = calculateRetryDelay(attempt, options, previousDelayMs);
+        previousDelayMs = delayMs;
+      }
+
+      // Stop when the next attempt would start after the total time budget
+      const elapsedMs = Date.now() - startTime;
+      if (maxElapsedMs !== undefined && elapsedMs + delayMs > maxElapsedMs) {
+        break;
+      }
 
-      await sleep(finalDelay);
+      await onRetry?.({ attempt, error, delayMs, elapsedMs });
+      await sleep(delayMs, signal);
     }
   }
 
   throw lastError!;
-} 
\ No newline at end of file
+}
\ No newline at end of file
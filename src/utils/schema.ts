@@ -0,0 +1,87 @@
+/**
+ * Response Schema Utilities
+ * Minimal runtime schema builders for validating API responses
+ */
+
+import type { ResponseSchema, ResponseValidationIssue } from '../types';
+
+// Stop collecting once a response is clearly off-schema
+const MAX_VALIDATION_ISSUES = 20;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function report(issues: ResponseValidationIssue[], path: string, message: string): void {
+  if (issues.length < MAX_VALIDATION_ISSUES) {
+    issues.push({ path: path || '(root)', message });
+  }
+}
+
+function primitive(expected: 'string' | 'number' | 'boolean'): ResponseSchema {
+  return (value, path, issues) => {
+    if (typeof value !== expected || (expected === 'number' && !Number.isFinite(value))) {
+      report(issues, path, `expected ${expected}, received ${describe(value)}`);
+    }
+  };
+}
+
+/**
+ * Schema builders
+ * Unknown object keys are allowed so additive API changes never fail validation
+ */
+export const schema = {
+  string: (): ResponseSchema => primitive('string'),
+
+  number: (): ResponseSchema => primitive('number'),
+
+  boolean: (): ResponseSchema => primitive('boolean'),
+
+  oneOf: (values: readonly string[]): ResponseSchema => (value, path, issues) => {
+    if (typeof value !== 'string' || !values.includes(value)) {
+      const received = typeof value === 'string' ? JSON.stringify(value) : describe(value);
+      report(issues, path, `expected one of ${values.join(', ')}, received ${received}`);
+    }
+  },
+
+  /**
+   * Accept undefined or null, WHOOP returns null for absent optional fields
+   */
+  optional: (inner: ResponseSchema): ResponseSchema => (value, path, issues) => {
+    if (value !== undefined && value !== null) {
+      inner(value, path, issues);
+    }
+  },
+
+  array: (item: ResponseSchema): ResponseSchema => (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      report(issues, path, `expected array, received ${describe(value)}`);
+      return;
+    }
+    value.forEach((entry, index) => item(entry, `${path}[${index}]`, issues));
+  },
+
+  /**
+   * Object schema, listing every key of T so schemas cannot silently miss a field
+   */
+  object: <T>(shape: { [K in keyof T]-?: ResponseSchema }): ResponseSchema => (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      report(issues, path, `expected object, received ${describe(value)}`);
+      return;
+    }
+    for (const [key, check] of Object.entries<ResponseSchema>(shape)) {
+      check((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key, issues);
+    }
+  }
+};
+
+/**
+ * Validate a value against a schema, returning every issue found
+ */
+export function validateResponse(value: unknown, check: ResponseSchema): ResponseValidationIssue[] {
+  const issues: ResponseValidationIssue[] = [];
+  check(value, '', issues);
+  return issues;
+}
\ No newline at end of file
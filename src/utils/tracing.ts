@@ -0,0 +1,147 @@
+/**
+ * Tracing Utilities
+ * Fault-tolerant span handling and trace header propagation
+ */
+
+import type {
+  SpanAttributes,
+  SpanAttributeValue,
+  SpanStatusCode,
+  TracingConfig,
+  WhoopSpan
+} from '../types';
+
+// OpenTelemetry SpanKind.CLIENT
+const SPAN_KIND_CLIENT = 2;
+
+export const SPAN_STATUS_OK: SpanStatusCode = 1;
+export const SPAN_STATUS_ERROR: SpanStatusCode = 2;
+
+/**
+ * Span that discards everything (used when tracing is not configured)
+ */
+const noopSpan: WhoopSpan = {
+  setAttribute: () => undefined,
+  addEvent: () => undefined,
+  recordException: () => {},
+  setStatus: () => undefined,
+  end: () => {}
+};
+
+/**
+ * Run a tracer call, a faulty tracer must never break API requests
+ */
+function safely(fn: () => unknown): void {
+  try {
+    fn();
+  } catch {
+    // Ignore tracer failures
+  }
+}
+
+/**
+ * Drop undefined attribute values, which OpenTelemetry rejects
+ */
+function cleanAttributes(attributes: SpanAttributes = {}): Record<string, SpanAttributeValue> {
+  const result: Record<string, SpanAttributeValue> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * SDK-internal span wrapper
+ * Contains tracer errors and injects trace headers
+ */
+export class SDKSpan implements WhoopSpan {
+  constructor(private readonly span: WhoopSpan) {}
+
+  setAttribute(key: string, value: SpanAttributeValue): this {
+    safely(() => this.span.setAttribute(key, value));
+    return this;
+  }
+
+  addEvent(name: string, attributes?: SpanAttributes): this {
+    safely(() => this.span.addEvent(name, cleanAttributes(attributes)));
+    return this;
+  }
+
+  recordException(exception: Error | string): void {
+    safely(() => this.span.recordException(exception));
+  }
+
+  setStatus(status: { code: SpanStatusCode; message?: string }): this {
+    safely(() => this.span.setStatus(status));
+    return this;
+  }
+
+  end(): void {
+    safely(() => this.span.end());
+  }
+
+  /**
+   * Add trace headers for this span to an outgoing request
+   */
+  inject(headers: Record<string, string>, propagate: TracingConfig['propagate']): void {
+    if (propagate === false) {
+      return;
+    }
+
+    safely(() => {
+      if (typeof propagate === 'function') {
+        propagate(this.span, headers);
+        return;
+      }
+
+      const context = this.span.spanContext?.();
+      if (context?.traceId && context.spanId) {
+        const flags = (context.traceFlags & 0xff).toString(16).padStart(2, '0');
+        headers['traceparent'] = `00-${context.traceId}-${context.spanId}-${flags}`;
+      }
+    });
+  }
+}
+
+/**
+ * SDK-internal tracer wrapper
+ * Starts client spans and propagates trace headers, doing nothing when tracing is off
+ */
+export class SDKTracer {
+  constructor(private readonly config?: TracingConfig) {}
+
+  /**
+   * Whether a tracer is configured
+   */
+  get enabled(): boolean {
+    return !!this.config;
+  }
+
+  /**
+   * Start a client span
+   */
+  startSpan(name: string, attributes?: SpanAttributes): SDKSpan {
+    if (!this.config) {
+      return new SDKSpan(noopSpan);
+    }
+
+    const tracer = this.config.tracer;
+    let span: WhoopSpan = noopSpan;
+    safely(() => {
+      span = tracer.startSpan(name, { kind: SPAN_KIND_CLIENT, attributes: cleanAttributes(attributes) });
+    });
+
+    return new SDKSpan(span);
+  }
+
+  /**
+   * Add trace headers for a span to an outgoing request
+   */
+  inject(span: SDKSpan, headers: Record<string, string>): void {
+    if (this.config) {
+      span.inject(headers, this.config.propagate);
+    }
+  }
+}
\ No newline at end of file
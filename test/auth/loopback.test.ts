@@ -0,0 +1,112 @@
+/**
+ * Loopback Login Tests
+ * Tests for the localhost redirect login helper
+ */
+
+import { get } from 'http';
+import { loginWithLoopback } from '../../src/auth/loopback';
+import { WhoopOAuthClient } from '../../src/auth/oauth';
+import { WhoopAbortError, WhoopConfigError, WhoopOAuthError, WhoopTimeoutError } from '../../src/errors';
+
+const REDIRECT_URI = 'http://127.0.0.1:38271/callback';
+
+const tokenResponse = {
+  access_token: 'access-token',
+  refresh_token: 'refresh-token',
+  expires_in: 3600,
+  token_type: 'Bearer',
+  scope: 'read:profile offline'
+};
+
+// Play the browser: follow the redirect back to the local server
+function visit(url: string): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    get(url, response => {
+      let body = '';
+      response.on('data', chunk => { body += chunk; });
+      response.on('end', () => resolve({ status: response.statusCode ?? 0, body }));
+    }).on('error', reject);
+  });
+}
+
+function callbackFor(authorizationUrl: string, params: Record<string, string>): string {
+  const state = new URL(authorizationUrl).searchParams.get('state')!;
+  return `${REDIRECT_URI}?${new URLSearchParams({ state, ...params })}`;
+}
+
+describe('loginWithLoopback', () => {
+  let mockFetch: jest.Mock;
+  let client: WhoopOAuthClient;
+
+  beforeEach(() => {
+    // The local server needs the real event loop
+    jest.useRealTimers();
+    mockFetch = jest.fn().mockResolvedValue(global.createMockResponse(tokenResponse));
+    client = new WhoopOAuthClient({ clientId: 'client', redirectUri: REDIRECT_URI, pkce: true, fetch: mockFetch });
+  });
+
+  afterEach(() => {
+    jest.useFakeTimers();
+  });
+
+  it('should capture the callback and exchange the code', async () => {
+    let page: Promise<{ status: number; body: string }> | undefined;
+
+    const tokens = await loginWithLoopback(client, {
+      scopes: ['read:profile', 'offline'],
+      openUrl: url => {
+        expect(new URL(url).searchParams.get('scope')).toBe('read:profile offline');
+        page = visit(callbackFor(url, { code: 'auth-code' }));
+      }
+    });
+
+    expect(tokens.access_token).toBe('access-token');
+    expect(await page).toMatchObject({ status: 200 });
+    const form = new URLSearchParams(mockFetch.mock.calls[0][1].body);
+    expect(form.get('code')).toBe('auth-code');
+    expect(form.get('code_verifier')).toMatch(/^[A-Za-z0-9_-]{43}$/);
+  });
+
+  it('should reject callbacks with a foreign state', async () => {
+    let page: Promise<{ status: number; body: string }> | undefined;
+
+    const error = await loginWithLoopback(client, {
+      openUrl: () => { page = visit(`${REDIRECT_URI}?code=auth-code&state=forged`); }
+    }).catch(e => e);
+
+    expect(error).toBeInstanceOf(WhoopOAuthError);
+    expect(error.message).toBe('State parameter mismatch');
+    expect((await page)?.status).toBe(400);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should surface a declined consent', async () => {
+    const error = await loginWithLoopback(client, {
+      openUrl: url => { void visit(callbackFor(url, { error: 'access_denied', error_description: 'User declined' })); }
+    }).catch(e => e);
+
+    expect(error).toMatchObject({ oauthError: 'access_denied', message: 'User declined' });
+  });
+
+  it('should time out and release the port', async () => {
+    const error = await loginWithLoopback(client, { timeoutMs: 50, openUrl: () => undefined }).catch(e => e);
+
+    expect(error).toBeInstanceOf(WhoopTimeoutError);
+    expect(error.timeoutMs).toBe(50);
+
+    // The port is free for the next attempt
+    const controller = new AbortController();
+    const next = loginWithLoopback(client, { signal: controller.signal, openUrl: () => controller.abort() });
+    await expect(next).rejects.toBeInstanceOf(WhoopAbortError);
+  });
+
+  it('should require a loopback redirect URI', async () => {
+    const remote = new WhoopOAuthClient({
+      clientId: 'client',
+      clientSecret: 'secret',
+      redirectUri: 'https://app.example.com/callback'
+    });
+
+    await expect(loginWithLoopback(remote)).rejects.toBeInstanceOf(WhoopConfigError);
+  });
+});
\ No newline at end of file
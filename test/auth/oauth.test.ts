@@ -0,0 +1,419 @@
+/**
+ * WhoopOAuthClient Tests
+ * Tests for the authorization code flow
+ */
+
+import { WhoopOAuthClient } from '../../src/auth/oauth';
+import { createCodeChallenge } from '../../src/auth/pkce';
+import { InMemoryTokenStore } from '../../src/auth/token-store';
+import type { OAuthConfig } from '../../src/types';
+import { WhoopAuthError, WhoopOAuthError } from '../../src/errors';
+
+const tokenResponse = {
+  access_token: 'access-token',
+  refresh_token: 'refresh-token',
+  expires_in: 3600,
+  token_type: 'Bearer',
+  scope: 'read:profile offline'
+};
+
+describe('WhoopOAuthClient', () => {
+  let mockFetch: jest.Mock;
+
+  beforeEach(() => {
+    mockFetch = jest.fn().mockResolvedValue(global.createMockResponse(tokenResponse));
+  });
+
+  const formOf = (call: number): URLSearchParams => new URLSearchParams(mockFetch.mock.calls[call][1].body);
+
+  describe('PKCE', () => {
+    const createClient = () => new WhoopOAuthClient({
+      clientId: 'public-client',
+      redirectUri: 'http://127.0.0.1:8080/callback',
+      pkce: true,
+      fetch: mockFetch
+    });
+
+    it('should not require a client secret', () => {
+      expect(createClient).not.toThrow();
+      expect(() => new WhoopOAuthClient({ clientId: 'id', redirectUri: 'http://localhost/cb' }))
+        .toThrow(WhoopOAuthError);
+    });
+
+    it('should send the S256 challenge and then the verifier', async () => {
+      const client = createClient();
+      const { url, codeVerifier } = await client.createAuthorizationRequest({ state: 'state-123' });
+      const params = new URL(url).searchParams;
+
+      expect(params.get('code_challenge')).toBe(await createCodeChallenge(codeVerifier));
+      expect(params.get('code_challenge_method')).toBe('S256');
+      expect(params.get('state')).toBe('state-123');
+
+      await client.exchangeCodeForTokens('auth-code', { codeVerifier });
+
+      const form = formOf(0);
+      expect(form.get('code_verifier')).toBe(codeVerifier);
+      expect(form.get('client_id')).toBe('public-client');
+      expect(form.has('client_secret')).toBe(false);
+    });
+
+    it('should refresh without a client secret', async () => {
+      const client = createClient();
+      await client.refreshAccessToken('refresh-token');
+
+      expect(formOf(0).has('client_secret')).toBe(false);
+    });
+
+    it('should require the verifier when PKCE is enabled', async () => {
+      const client = createClient();
+
+      expect(() => client.getAuthorizationUrl()).toThrow(WhoopOAuthError);
+      await expect(client.exchangeCodeForTokens('auth-code')).rejects.toBeInstanceOf(WhoopOAuthError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should support PKCE alongside a client secret', async () => {
+      const client = new WhoopOAuthClient({
+        clientId: 'confidential-client',
+        clientSecret: 'secret',
+        redirectUri: 'https://app.example.com/callback',
+        fetch: mockFetch
+      });
+
+      await client.exchangeCodeForTokens('auth-code', { codeVerifier: 'v'.repeat(43) });
+
+      expect(formOf(0).get('client_secret')).toBe('secret');
+      expect(formOf(0).get('code_verifier')).toBe('v'.repeat(43));
+    });
+  });
+
+  describe('Token Store', () => {
+    const storedTokens = { ...tokenResponse, access_token: 'stored-access', refresh_token: 'stored-refresh' };
+
+    const createClient = (tokenStore: InMemoryTokenStore) => new WhoopOAuthClient({
+      clientId: 'client',
+      clientSecret: 'secret',
+      redirectUri: 'https://app.example.com/callback',
+      fetch: mockFetch,
+      tokenStore,
+      userId: 'user-1'
+    });
+
+    it('should load the user\'s tokens on startup', async () => {
+      const tokenStore = new InMemoryTokenStore();
+      await tokenStore.set('user-1', storedTokens);
+      await tokenStore.set('user-2', tokenResponse);
+
+      const client = createClient(tokenStore);
+
+      await expect(client.getValidAccessToken()).resolves.toBe('stored-access');
+    });
+
+    it('should keep tokens set before the store was read', async () => {
+      const tokenStore = new InMemoryTokenStore();
+      await tokenStore.set('user-1', storedTokens);
+
+      const client = createClient(tokenStore);
+      client.setTokens(tokenResponse);
+      await client.ready();
+
+      expect(client.getTokens()?.access_token).toBe('access-token');
+    });
+
+    it('should write tokens on exchange and refresh', async () => {
+      const tokenStore = new InMemoryTokenStore();
+      const client = createClient(tokenStore);
+
+      await client.exchangeCodeForTokens('auth-code');
+      expect((await tokenStore.get('user-1'))?.access_token).toBe('access-token');
+
+      mockFetch.mockResolvedValueOnce(global.createMockResponse({ ...tokenResponse, access_token: 'refreshed' }));
+      await client.refreshAccessToken();
+      expect((await tokenStore.get('user-1'))?.access_token).toBe('refreshed');
+    });
+
+    it('should delete tokens on revoke', async () => {
+      const tokenStore = new InMemoryTokenStore();
+      await tokenStore.set('user-1', storedTokens);
+      const client = createClient(tokenStore);
+
+      await client.revokeToken();
+
+      expect(new URLSearchParams(mockFetch.mock.calls[0][1].body).get('token')).toBe('stored-access');
+      await expect(tokenStore.get('user-1')).resolves.toBeUndefined();
+    });
+
+    it('should write tokens set manually and delete cleared ones', async () => {
+      const tokenStore = new InMemoryTokenStore();
+      const client = createClient(tokenStore);
+      await client.ready();
+
+      client.setTokens(tokenResponse);
+      await expect(tokenStore.get('user-1')).resolves.toMatchObject({ access_token: 'access-token' });
+
+      client.clearTokens();
+      await expect(tokenStore.get('user-1')).resolves.toBeUndefined();
+    });
+
+    it('should not reload tokens cleared after a failed refresh', async () => {
+      const tokenStore = new InMemoryTokenStore();
+      await tokenStore.set('user-1', storedTokens);
+      const client = createClient(tokenStore);
+      await client.ready();
+
+      mockFetch.mockResolvedValueOnce(global.createMockErrorResponse(400, 'invalid_grant'));
+      await expect(client.refreshAccessToken()).rejects.toThrow();
+      client.clearTokens();
+
+      const restarted = createClient(tokenStore);
+      await restarted.ready();
+      expect(restarted.getTokens()).toBeUndefined();
+    });
+
+    it('should keep working when the store fails', async () => {
+      const tokenStore = new InMemoryTokenStore();
+      jest.spyOn(tokenStore, 'get').mockRejectedValue(new Error('store down'));
+      jest.spyOn(tokenStore, 'set').mockRejectedValue(new Error('store down'));
+      const client = createClient(tokenStore);
+
+      await expect(client.exchangeCodeForTokens('auth-code')).resolves.toMatchObject({ access_token: 'access-token' });
+      await expect(client.getValidAccessToken()).resolves.toBe('access-token');
+    });
+  });
+
+  describe('Token Expiry', () => {
+    const createClient = (expirySkewMs?: number) => new WhoopOAuthClient({
+      clientId: 'client',
+      clientSecret: 'secret',
+      redirectUri: 'https://app.example.com/callback',
+      fetch: mockFetch,
+      ...(expirySkewMs !== undefined ? { expirySkewMs } : {})
+    });
+
+    it('should stamp exchanged tokens with obtained_at and expires_at', async () => {
+      const now = Date.now();
+      const tokens = await createClient().exchangeCodeForTokens('auth-code');
+
+      expect(tokens.obtained_at).toBe(now);
+      expect(tokens.expires_at).toBe(now + 3600 * 1000);
+    });
+
+    it('should expire tokens as time passes, within the skew', async () => {
+      const client = createClient(60000);
+      await client.exchangeCodeForTokens('auth-code');
+
+      jest.advanceTimersByTime(58 * 60 * 1000);
+      expect(client.isTokenExpired()).toBe(false);
+
+      jest.advanceTimersByTime(60 * 1000);
+      expect(client.isTokenExpired()).toBe(true);
+    });
+
+    it('should keep the expiry of tokens set from storage', () => {
+      const client = createClient();
+      client.setTokens({ ...tokenResponse, obtained_at: Date.now() - 7200000, expires_at: Date.now() - 3600000 });
+
+      expect(client.isTokenExpired()).toBe(true);
+    });
+
+    it('should treat tokens without an expiry as issued when set', () => {
+      const client = createClient();
+      client.setTokens(tokenResponse);
+
+      expect(client.getTokens()?.expires_at).toBe(Date.now() + 3600 * 1000);
+    });
+  });
+
+  describe('Proactive Refresh', () => {
+    const createClient = (proactiveRefresh: OAuthConfig['proactiveRefresh'] = true) => new WhoopOAuthClient({
+      clientId: 'client',
+      clientSecret: 'secret',
+      redirectUri: 'https://app.example.com/callback',
+      fetch: mockFetch,
+      proactiveRefresh
+    });
+
+    const refreshCalls = () => mockFetch.mock.calls.filter(([, init]) =>
+      new URLSearchParams(init.body).get('grant_type') === 'refresh_token'
+    ).length;
+
+    it('should refresh shortly before the token expires', async () => {
+      const onRefresh = jest.fn();
+      const client = createClient({ onRefresh });
+      await client.exchangeCodeForTokens('auth-code');
+
+      await jest.advanceTimersByTimeAsync(54 * 60 * 1000 - 1);
+      expect(refreshCalls()).toBe(0);
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(refreshCalls()).toBe(1);
+      expect(onRefresh).toHaveBeenCalledWith(expect.objectContaining({ access_token: 'access-token' }));
+
+      // The refreshed token is scheduled in turn
+      await jest.advanceTimersByTimeAsync(54 * 60 * 1000);
+      expect(refreshCalls()).toBe(2);
+      client.dispose();
+    });
+
+    it('should share an in-flight refresh', async () => {
+      const client = createClient();
+      await client.exchangeCodeForTokens('auth-code');
+
+      let resolveRefresh!: (response: Response) => void;
+      mockFetch.mockReturnValueOnce(new Promise(resolve => { resolveRefresh = resolve; }));
+      const manual = client.refreshAccessToken();
+
+      await jest.advanceTimersByTimeAsync(54 * 60 * 1000);
+      resolveRefresh(global.createMockResponse(tokenResponse));
+      await manual;
+
+      expect(refreshCalls()).toBe(1);
+      client.dispose();
+    });
+
+    it('should back off after failures', async () => {
+      const onError = jest.fn();
+      const client = createClient({ onError, backoff: { baseDelayMs: 1000, jitter: 'none' } });
+      await client.exchangeCodeForTokens('auth-code');
+      mockFetch.mockRejectedValueOnce(new Error('socket hang up')).mockRejectedValueOnce(new Error('socket hang up'));
+
+      await jest.advanceTimersByTimeAsync(54 * 60 * 1000);
+      expect(onError).toHaveBeenLastCalledWith(expect.anything(), 1000);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(onError).toHaveBeenLastCalledWith(expect.anything(), 2000);
+
+      await jest.advanceTimersByTimeAsync(2000);
+      expect(refreshCalls()).toBe(3);
+      expect(onError).toHaveBeenCalledTimes(2);
+      client.dispose();
+    });
+
+    it('should back off when the token endpoint is unavailable', async () => {
+      const onError = jest.fn();
+      const client = createClient({ onError, backoff: { baseDelayMs: 1000, jitter: 'none' } });
+      await client.exchangeCodeForTokens('auth-code');
+      mockFetch.mockResolvedValueOnce(global.createMockErrorResponse(503, 'temporarily_unavailable'));
+
+      await jest.advanceTimersByTimeAsync(54 * 60 * 1000);
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ status: 503 }), 1000);
+      expect(onError.mock.calls[0][0]).not.toBeInstanceOf(WhoopAuthError);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(refreshCalls()).toBe(2);
+      expect(client.getTokens()?.access_token).toBe('access-token');
+      client.dispose();
+    });
+
+    it('should give up when the refresh token is rejected', async () => {
+      const onError = jest.fn();
+      const client = createClient({ onError });
+      await client.exchangeCodeForTokens('auth-code');
+      mockFetch.mockResolvedValueOnce(global.createMockErrorResponse(400, 'invalid_grant'));
+
+      await jest.advanceTimersByTimeAsync(54 * 60 * 1000);
+      await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+
+      expect(onError).toHaveBeenCalledWith(expect.any(WhoopAuthError), undefined);
+      expect(refreshCalls()).toBe(1);
+    });
+
+    it('should stop when disposed', async () => {
+      const client = createClient();
+      await client.exchangeCodeForTokens('auth-code');
+
+      client.dispose();
+      await jest.advanceTimersByTimeAsync(2 * 60 * 60 * 1000);
+
+      expect(refreshCalls()).toBe(0);
+      expect(() => client.startProactiveRefresh()).toThrow(WhoopAuthError);
+    });
+
+    it('should be opt-in', async () => {
+      const client = createClient(false);
+      await client.exchangeCodeForTokens('auth-code');
+      await jest.advanceTimersByTimeAsync(2 * 60 * 60 * 1000);
+      expect(refreshCalls()).toBe(0);
+
+      client.startProactiveRefresh({ leadTimeMs: 0 });
+      await jest.advanceTimersByTimeAsync(0);
+      expect(refreshCalls()).toBe(1);
+      client.dispose();
+    });
+  });
+
+  describe('Incremental Authorization', () => {
+    const createClient = (pkce = false) => {
+      const client = new WhoopOAuthClient({
+        clientId: 'client',
+        ...(pkce ? { pkce } : { clientSecret: 'secret' }),
+        redirectUri: 'https://app.example.com/callback',
+        fetch: mockFetch
+      });
+      client.setTokens({ ...tokenResponse, scope: 'read:profile read:cycles read:recovery offline' });
+      return client;
+    };
+
+    it('should request the granted scopes together with the new ones', async () => {
+      const { url, scopes, codeVerifier } = await createClient().createIncrementalAuthorizationRequest({
+        scopes: ['read:cycles', 'read:sleep', 'read:workout'],
+        state: 'state-123'
+      });
+
+      expect(scopes).toEqual(['read:profile', 'read:cycles', 'read:recovery', 'offline', 'read:sleep', 'read:workout']);
+      expect(new URL(url).searchParams.get('scope')).toBe('read:profile read:cycles read:recovery offline read:sleep read:workout');
+      expect(new URL(url).searchParams.get('state')).toBe('state-123');
+      expect(codeVerifier).toBeUndefined();
+    });
+
+    it('should include a PKCE challenge for public clients', async () => {
+      const { url, codeVerifier } = await createClient(true).createIncrementalAuthorizationRequest({ scopes: ['read:sleep'] });
+
+      expect(new URL(url).searchParams.get('code_challenge')).toBe(await createCodeChallenge(codeVerifier!));
+    });
+
+    it('should reject requests for scopes that are already granted', async () => {
+      await expect(createClient().createIncrementalAuthorizationRequest({ scopes: ['read:cycles'] }))
+        .rejects.toBeInstanceOf(WhoopOAuthError);
+    });
+
+    it('should record the new grant and report new features', async () => {
+      mockFetch.mockResolvedValueOnce(global.createMockResponse({
+        ...tokenResponse,
+        access_token: 'incremental-token',
+        scope: 'read:profile read:cycles read:recovery offline read:sleep'
+      }));
+      const client = createClient();
+
+      const result = await client.completeIncrementalAuthorization('auth-code');
+
+      expect(result.tokens.access_token).toBe('incremental-token');
+      expect(result.grantedScopes).toEqual(['read:profile', 'read:cycles', 'read:recovery', 'offline', 'read:sleep']);
+      expect(result.newScopes).toEqual(['read:sleep']);
+      expect(result.newFeatures).toEqual(['sleep']);
+      expect(client.getTokens()?.scope).toBe('read:profile read:cycles read:recovery offline read:sleep');
+    });
+
+    it('should trust the scope returned by the token endpoint', async () => {
+      mockFetch.mockResolvedValueOnce(global.createMockResponse({ ...tokenResponse, scope: 'read:sleep offline' }));
+      const client = createClient();
+
+      const result = await client.completeIncrementalAuthorization('auth-code');
+
+      expect(result.grantedScopes).toEqual(['read:sleep', 'offline']);
+      expect(result.newFeatures).toEqual(['sleep']);
+      expect(client.getTokens()?.scope).toBe('read:sleep offline');
+    });
+
+    it('should keep incrementally granted scopes across refreshes without a scope', async () => {
+      const client = createClient();
+      client.setTokens({ ...tokenResponse, scope: 'read:profile read:cycles read:recovery offline read:sleep' });
+      const { scope: _scope, ...withoutScope } = tokenResponse;
+      mockFetch.mockResolvedValueOnce(global.createMockResponse(withoutScope));
+
+      await client.refreshAccessToken();
+
+      expect(client.getTokens()?.scope).toBe('read:profile read:cycles read:recovery offline read:sleep');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,36 @@
+/**
+ * PKCE Tests
+ * Tests for code verifier generation and S256 challenges
+ */
+
+import { createCodeChallenge, createPkcePair, generateCodeVerifier } from '../../src/auth/pkce';
+import { WhoopConfigError, WhoopOAuthError } from '../../src/errors';
+
+describe('PKCE', () => {
+  it('should derive the RFC 7636 S256 challenge', async () => {
+    // Example from RFC 7636 Appendix B
+    await expect(createCodeChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk'))
+      .resolves.toBe('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM');
+  });
+
+  it('should generate unique URL-safe verifiers', () => {
+    const first = generateCodeVerifier();
+    const second = generateCodeVerifier();
+
+    expect(first).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(generateCodeVerifier(96)).toHaveLength(128);
+    expect(first).not.toBe(second);
+    expect(() => generateCodeVerifier(16)).toThrow(WhoopConfigError);
+  });
+
+  it('should create a matching verifier and challenge', async () => {
+    const pair = await createPkcePair();
+
+    expect(pair.codeChallengeMethod).toBe('S256');
+    await expect(createCodeChallenge(pair.codeVerifier)).resolves.toBe(pair.codeChallenge);
+  });
+
+  it('should reject malformed verifiers', async () => {
+    await expect(createCodeChallenge('too-short')).rejects.toBeInstanceOf(WhoopOAuthError);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,92 @@
+/**
+ * OAuth State Tests
+ * Tests for signed, expiring state values and replay protection
+ */
+
+import { OAuthStateManager } from '../../src/auth/state';
+import { WhoopConfigError, WhoopOAuthError } from '../../src/errors';
+
+const SECRET = 'a-secret-of-at-least-thirty-two-bytes!';
+
+async function expectStateError(promise: Promise<unknown>, code: string): Promise<void> {
+  const error = await promise.catch(caught => caught);
+  expect(error).toBeInstanceOf(WhoopOAuthError);
+  expect(error.code).toBe(code);
+}
+
+describe('OAuthStateManager', () => {
+  it('should round-trip the nonce and payload', async () => {
+    const manager = new OAuthStateManager<{ returnTo: string }>({ secret: SECRET });
+
+    const state = await manager.create({ returnTo: '/dashboard?tab=sleep' });
+    const verified = await manager.verify(state);
+
+    expect(state).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+    expect(verified.payload).toEqual({ returnTo: '/dashboard?tab=sleep' });
+    expect(verified.nonce).toMatch(/^[A-Za-z0-9_-]{22}$/);
+    expect(verified.expiresAt - verified.issuedAt).toBe(10 * 60 * 1000);
+  });
+
+  it('should reject state that was already used', async () => {
+    const manager = new OAuthStateManager({ secret: SECRET });
+    const state = await manager.create();
+
+    await manager.verify(state);
+    await expectStateError(manager.verify(state), 'OAUTH_STATE_REPLAYED');
+  });
+
+  it('should reject expired state', async () => {
+    const manager = new OAuthStateManager({ secret: SECRET, ttlMs: 60000 });
+    const state = await manager.create();
+
+    jest.advanceTimersByTime(60000);
+
+    await expectStateError(manager.verify(state), 'OAUTH_STATE_EXPIRED');
+  });
+
+  it('should reject tampered payloads and foreign signatures', async () => {
+    const manager = new OAuthStateManager({ secret: SECRET });
+    const other = new OAuthStateManager({ secret: `${SECRET}-other` });
+
+    const [, signature] = (await manager.create({ returnTo: '/' })).split('.');
+    const forgedBody = Buffer.from(JSON.stringify({
+      nonce: 'forged', issuedAt: Date.now(), expiresAt: Date.now() + 60000, payload: { returnTo: 'https://evil.example' }
+    })).toString('base64url');
+
+    await expectStateError(manager.verify(`${forgedBody}.${signature}`), 'OAUTH_STATE_TAMPERED');
+    await expectStateError(manager.verify(await other.create()), 'OAUTH_STATE_TAMPERED');
+  });
+
+  it('should reject missing and malformed state', async () => {
+    const manager = new OAuthStateManager({ secret: SECRET });
+
+    await expectStateError(manager.verify(undefined), 'OAUTH_STATE_INVALID');
+    await expectStateError(manager.verify('not-a-state'), 'OAUTH_STATE_INVALID');
+    await expectStateError(manager.verify('a.b.c'), 'OAUTH_STATE_INVALID');
+  });
+
+  it('should consult a shared nonce store', async () => {
+    const consume = jest.fn().mockResolvedValue(false);
+    const manager = new OAuthStateManager({ secret: SECRET, nonceStore: { consume } });
+    const state = await manager.create();
+
+    await expectStateError(manager.verify(state), 'OAUTH_STATE_REPLAYED');
+    expect(consume).toHaveBeenCalledWith(expect.any(String), expect.any(Number));
+  });
+
+  it('should verify the state of a callback URL', async () => {
+    const manager = new OAuthStateManager<string>({ secret: SECRET });
+    const state = await manager.create('/settings');
+
+    const result = await manager.verifyCallback(
+      `https://app.example/callback?code=auth-code&state=${encodeURIComponent(state)}`
+    );
+
+    expect(result.code).toBe('auth-code');
+    expect(result.state.payload).toBe('/settings');
+  });
+
+  it('should require a strong secret', () => {
+    expect(() => new OAuthStateManager({ secret: 'short' })).toThrow(WhoopConfigError);
+  });
+});
\ No newline at end of file
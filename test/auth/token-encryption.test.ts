@@ -0,0 +1,109 @@
+/**
+ * Token Encryption Tests
+ * Tests for encrypted token blobs, tamper detection and key rotation
+ */
+
+import { EncryptedTokenStore, TokenCipher } from '../../src/auth/token-encryption';
+import { InMemoryTokenStore } from '../../src/auth/token-store';
+import { WhoopConfigError, WhoopTokenDecryptionError } from '../../src/errors';
+import type { OAuthTokens } from '../../src/types';
+
+const tokens: OAuthTokens = {
+  access_token: 'access-token',
+  refresh_token: 'refresh-token',
+  expires_in: 3600,
+  token_type: 'Bearer',
+  scope: 'read:profile offline'
+};
+
+const oldKey = { id: '2025-01', key: new Uint8Array(32).fill(1) };
+const newKey = { id: '2026-01', key: new Uint8Array(32).fill(2) };
+
+async function expectDecryptionError(promise: Promise<unknown>, keyId?: string): Promise<void> {
+  const error = await promise.catch(caught => caught);
+  expect(error).toBeInstanceOf(WhoopTokenDecryptionError);
+  expect(error.code).toBe('TOKEN_DECRYPTION_ERROR');
+  expect(error.keyId).toBe(keyId);
+}
+
+describe('TokenCipher', () => {
+  it('should round-trip tokens without exposing them', async () => {
+    const cipher = new TokenCipher({ keys: [newKey] });
+
+    const blob = await cipher.encrypt(tokens);
+
+    expect(blob).toMatch(/^v1\.2026-01\.[A-Za-z0-9_-]{16}\.[A-Za-z0-9_-]+$/);
+    expect(blob).not.toContain('refresh');
+    expect(await cipher.encrypt(tokens)).not.toBe(blob);
+    expect(await cipher.decrypt(blob)).toEqual(tokens);
+  });
+
+  it('should refuse tampered blobs', async () => {
+    const cipher = new TokenCipher({ keys: [newKey] });
+    const [version, keyId, iv, ciphertext] = (await cipher.encrypt(tokens)).split('.');
+    const flipped = `${ciphertext!.startsWith('A') ? 'B' : 'A'}${ciphertext!.slice(1)}`;
+
+    await expectDecryptionError(cipher.decrypt(`${version}.${keyId}.${iv}.${flipped}`), '2026-01');
+    await expectDecryptionError(cipher.decrypt('not-a-blob'));
+    await expectDecryptionError(cipher.decrypt(`${version}.${keyId}.short.${ciphertext}`));
+  });
+
+  it('should bind blobs to their context', async () => {
+    const cipher = new TokenCipher({ keys: [newKey] });
+    const blob = await cipher.encrypt(tokens, 'user-1');
+
+    await expectDecryptionError(cipher.decrypt(blob, 'user-2'), '2026-01');
+  });
+
+  it('should decrypt with older keys and report unknown ones', async () => {
+    const blob = await new TokenCipher({ keys: [oldKey] }).encrypt(tokens);
+    const rotated = new TokenCipher({ keys: [newKey, oldKey] });
+
+    expect(await rotated.decrypt(blob)).toEqual(tokens);
+    expect(rotated.usesCurrentKey(blob)).toBe(false);
+    await expectDecryptionError(new TokenCipher({ keys: [newKey] }).decrypt(blob), '2025-01');
+  });
+
+  it('should validate keys', () => {
+    expect(() => new TokenCipher({ keys: [] })).toThrow(WhoopConfigError);
+    expect(() => new TokenCipher({ keys: [{ id: 'short', key: new Uint8Array(16) }] })).toThrow(WhoopConfigError);
+    expect(() => new TokenCipher({ keys: [{ id: 'has.dot', key: newKey.key }] })).toThrow(WhoopConfigError);
+    expect(() => new TokenCipher({ keys: [newKey, { ...oldKey, id: newKey.id }] })).toThrow(WhoopConfigError);
+  });
+});
+
+describe('EncryptedTokenStore', () => {
+  it('should only hand encrypted blobs to the wrapped store', async () => {
+    const blobs = new InMemoryTokenStore<string>();
+    const store = new EncryptedTokenStore(blobs, { keys: [newKey] });
+
+    await store.set('user-1', tokens);
+
+    expect(await blobs.get('user-1')).toMatch(/^v1\.2026-01\./);
+    expect(await store.get('user-1')).toEqual(tokens);
+    expect(await store.get('user-2')).toBeUndefined();
+
+    await store.delete('user-1');
+    expect(await blobs.get('user-1')).toBeUndefined();
+  });
+
+  it('should refuse blobs moved to another user', async () => {
+    const blobs = new InMemoryTokenStore<string>();
+    const store = new EncryptedTokenStore(blobs, { keys: [newKey] });
+
+    await store.set('user-1', tokens);
+    await blobs.set('user-2', (await blobs.get('user-1'))!);
+
+    await expectDecryptionError(store.get('user-2'), '2026-01');
+  });
+
+  it('should re-encrypt blobs written with an older key', async () => {
+    const blobs = new InMemoryTokenStore<string>();
+    await new EncryptedTokenStore(blobs, { keys: [oldKey] }).set('user-1', tokens);
+
+    const store = new EncryptedTokenStore(blobs, { keys: [newKey, oldKey] });
+
+    expect(await store.get('user-1')).toEqual(tokens);
+    expect(await blobs.get('user-1')).toMatch(/^v1\.2026-01\./);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,74 @@
+/**
+ * Token Store Tests
+ * Tests for the in-memory and JSON file token stores
+ */
+
+import { mkdtemp, readFile, rm, stat, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileTokenStore, InMemoryTokenStore } from '../../src/auth/token-store';
+
+const tokens = (accessToken: string) => ({
+  access_token: accessToken,
+  refresh_token: `${accessToken}-refresh`,
+  expires_in: 3600,
+  token_type: 'Bearer',
+  scope: 'read:profile offline'
+});
+
+describe('InMemoryTokenStore', () => {
+  it('should get, set and delete tokens per user', async () => {
+    const store = new InMemoryTokenStore();
+
+    await store.set('user-1', tokens('a'));
+    await store.set('user-2', tokens('b'));
+    await store.delete('user-2');
+
+    await expect(store.get('user-1')).resolves.toEqual(tokens('a'));
+    await expect(store.get('user-2')).resolves.toBeUndefined();
+  });
+});
+
+describe('FileTokenStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'whoop-tokens-'));
+    filePath = join(dir, 'tokens.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should treat a missing file as empty', async () => {
+    await expect(new FileTokenStore(filePath).get('user-1')).resolves.toBeUndefined();
+  });
+
+  it('should persist tokens across instances', async () => {
+    await new FileTokenStore(filePath).set('user-1', tokens('a'));
+
+    await expect(new FileTokenStore(filePath).get('user-1')).resolves.toEqual(tokens('a'));
+    expect((await stat(filePath)).mode & 0o777).toBe(0o600);
+  });
+
+  it('should not lose concurrent writes', async () => {
+    const store = new FileTokenStore(filePath);
+
+    await Promise.all([
+      store.set('user-1', tokens('a')),
+      store.set('user-2', tokens('b')),
+      store.set('user-3', tokens('c'))
+    ]);
+    await store.delete('user-2');
+
+    expect(Object.keys(JSON.parse(await readFile(filePath, 'utf-8')))).toEqual(['user-1', 'user-3']);
+  });
+
+  it('should surface unreadable files', async () => {
+    await writeFile(filePath, '{ not json');
+
+    await expect(new FileTokenStore(filePath).get('user-1')).rejects.toThrow(SyntaxError);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,1166 @@
+/**
+ * WhoopHttpClient Tests
+ * Tests for caching and request handling in the core HTTP client
+ */
+
+import { WhoopHttpClient } from '../../src/client/http';
+import { respondWith, retryRequest } from '../../src/client/interceptors';
+import { createEndpoints } from '../../src/endpoints';
+import { InMemoryTokenStore } from '../../src/auth/token-store';
+import { WhoopRateLimiter } from '../../src/utils/rate-limiter';
+import { WhoopCircuitBreaker } from '../../src/utils/circuit-breaker';
+import { PrometheusExporter } from '../../src/utils/prometheus';
+import {
+  WhoopAbortError,
+  WhoopCircuitOpenError,
+  WhoopAuthError,
+  WhoopClientRateLimitError,
+  WhoopConfigError,
+  WhoopRateLimitError,
+  WhoopResponseValidationError,
+  WhoopScopeError,
+  WhoopTimeoutError
+} from '../../src/errors';
+import type { WhoopInterceptor } from '../../src/types';
+
+const oauth = {
+  clientId: 'test-client-id',
+  clientSecret: 'test-client-secret',
+  redirectUri: 'http://localhost:8080/callback'
+};
+
+describe('WhoopHttpClient', () => {
+  let mockFetch: jest.Mock;
+
+  beforeEach(() => {
+    mockFetch = jest.fn().mockImplementation(() =>
+      Promise.resolve(global.createMockResponse(global.testData.userProfile))
+    );
+    global.fetch = mockFetch;
+  });
+
+  describe('Response Caching', () => {
+    it('should serve repeated GET requests from cache', async () => {
+      const onCacheHit = jest.fn();
+      const onRequestEnd = jest.fn();
+      const client = new WhoopHttpClient({
+        oauth,
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        performance: { cache: { ttl: 5000 }, hooks: { onCacheHit, onRequestEnd } }
+      });
+
+      const first = await client.get('/v1/user/profile/basic');
+      const second = await client.get('/v1/user/profile/basic');
+
+      expect(second).toEqual(first);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(onCacheHit).toHaveBeenCalledWith(expect.any(String), global.testData.userProfile);
+      expect(onRequestEnd.mock.calls.map(([metrics]) => metrics.cacheStatus)).toEqual(['miss', 'hit']);
+      expect(client.getPerformanceStats().cachedRequests).toBe(1);
+    });
+
+    it('should serve cache hits even when the onCacheHit hook throws', async () => {
+      const client = new WhoopHttpClient({
+        oauth,
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        performance: { cache: { ttl: 5000 }, hooks: { onCacheHit: () => { throw new Error('hook failed'); } } }
+      });
+
+      await client.get('/v1/user/profile/basic');
+
+      await expect(client.get('/v1/user/profile/basic')).resolves.toEqual(global.testData.userProfile);
+    });
+
+    it('should bypass the cache when skipCache is set', async () => {
+      const onRequestEnd = jest.fn();
+      const client = new WhoopHttpClient({
+        oauth,
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        performance: { cache: {}, hooks: { onRequestEnd } }
+      });
+
+      await client.get('/v1/user/profile/basic', { skipCache: true });
+      await client.get('/v1/user/profile/basic', { skipCache: true });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(onRequestEnd.mock.calls.map(([metrics]) => metrics.cacheStatus)).toEqual(['skip', 'skip']);
+    });
+
+    it('should honor a per-request cacheTtl', async () => {
+      const client = new WhoopHttpClient({
+        oauth,
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        performance: { cache: { ttl: 60000 } }
+      });
+
+      await client.get('/v1/user/profile/basic', { cacheTtl: 100 });
+      jest.advanceTimersByTime(200);
+      await client.get('/v1/user/profile/basic');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep cache entries separate per user', async () => {
+      const client = new WhoopHttpClient({
+        oauth,
+        accessToken: 'first-user-token',
+        refreshToken: 'refresh-token',
+        performance: { cache: {} }
+      });
+
+      await client.get('/v1/user/profile/basic');
+      client.setTokens({ ...global.testData.validTokens, access_token: 'second-user-token' });
+      await client.get('/v1/user/profile/basic');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache when caching is not configured', async () => {
+      const client = new WhoopHttpClient({
+        oauth,
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token'
+      });
+
+      await client.get('/v1/user/profile/basic');
+      await client.get('/v1/user/profile/basic');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Request Deduplication', () => {
+    const createClient = () => new WhoopHttpClient({
+      oauth,
+      accessToken: 'access-token',
+      refreshToken: 'refresh-token'
+    });
+
+    it('should coalesce concurrent identical GET requests', async () => {
+      const client = createClient();
+
+      const results = await Promise.all([
+        client.get('/v1/cycle'),
+        client.get('/v1/cycle'),
+        client.get('/v1/cycle')
+      ]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(results[0]).toEqual(results[2]);
+      expect(client.getPerformanceStats().dedupedRequests).toBe(2);
+    });
+
+    it('should not coalesce requests with different URLs or methods', async () => {
+      const client = createClient();
+
+      await Promise.all([
+        client.get('/v1/cycle'),
+        client.get('/v1/activity/sleep'),
+        client.delete('/v1/user/access'),
+        client.delete('/v1/user/access')
+      ]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('should send every request when deduplication is disabled', async () => {
+      const client = new WhoopHttpClient({
+        oauth,
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        performance: { deduplication: { enabled: false } }
+      });
+
+      await Promise.all([client.get('/v1/cycle'), client.get('/v1/cycle')]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should let one caller cancel without aborting the shared request', async () => {
+      const client = createClient();
+      const controller = new AbortController();
+
+      const cancelled = client.get('/v1/cycle', { signal: controller.signal });
+      const kept = client.get('/v1/cycle');
+
+      controller.abort();
+
+      await expect(cancelled).rejects.toThrow('Request was cancelled');
+      await expect(kept).resolves.toEqual(global.testData.userProfile);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Interceptors', () => {
+    const createClient = (interceptors: WhoopInterceptor[] = []) => new WhoopHttpClient({
+      oauth,
+      accessToken: 'access-token',
+      refreshToken: 'refresh-token',
+      interceptors
+    });
+
+    it('should let interceptors add headers after authentication', async () => {
+      const client = createClient([{
+        onRequest: (request) => {
+          request.headers['X-Tenant-Id'] = 'tenant-1';
+          return request;
+        }
+      }]);
+
+      await client.get('/v1/cycle');
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.headers['X-Tenant-Id']).toBe('tenant-1');
+      expect(init.headers['Authorization']).toBe('Bearer access-token');
+    });
+
+    it('should short-circuit requests answered by an interceptor', async () => {
+      const client = createClient([{ onRequest: () => respondWith({ records: [] }) }]);
+
+      await expect(client.get('/v1/cycle')).resolves.toEqual({ records: [] });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should let interceptors rewrite responses', async () => {
+      const client = createClient([{
+        onResponse: (response) => ({ ...response, body: { rewritten: true } })
+      }]);
+
+      await expect(client.get('/v1/cycle')).resolves.toEqual({ rewritten: true });
+    });
+
+    it('should let interceptors rewrite error responses before error mapping', async () => {
+      mockFetch.mockResolvedValueOnce(global.createMockErrorResponse(404, 'Not found'));
+      const client = createClient([{
+        onResponse: (response) => response.status === 404
+          ? { ...response, ok: true, body: null }
+          : response
+      }]);
+
+      await expect(client.get('/v1/cycle/1/recovery')).resolves.toBeNull();
+    });
+
+    it('should run interceptors in order and support runtime registration', async () => {
+      const calls: string[] = [];
+      const client = createClient([{ onRequest: () => { calls.push('config'); } }]);
+      const remove = client.addInterceptor({ onRequest: () => { calls.push('runtime'); } });
+
+      await client.get('/v1/cycle');
+      remove();
+      await client.get('/v1/cycle');
+
+      expect(calls).toEqual(['config', 'runtime', 'config']);
+    });
+
+    it('should replay a request when onError asks for a retry', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('socket hang up'));
+      const client = createClient([{
+        onError: (error, request) => request.replays === 0 ? retryRequest() : undefined
+      }]);
+
+      await expect(client.post('/v1/cycle', { body: {}, retries: 1 })).resolves.toEqual(global.testData.userProfile);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refresh tokens and replay once after a 401', async () => {
+      mockFetch
+        .mockResolvedValueOnce(global.createMockErrorResponse(401, 'Unauthorized'))
+        .mockResolvedValueOnce(global.createMockResponse({
+          access_token: 'refreshed-token',
+          refresh_token: 'refresh-token',
+          expires_in: 3600,
+          token_type: 'Bearer',
+          scope: 'read:profile offline'
+        }));
+      const onTokenRefresh = jest.fn();
+      const client = new WhoopHttpClient({
+        oauth,
+        accessToken: 'expired-token',
+        refreshToken: 'refresh-token',
+        onTokenRefresh
+      });
+
+      await expect(client.get('/v1/user/profile/basic', { retries: 1 })).resolves.toEqual(global.testData.userProfile);
+
+      expect(onTokenRefresh).toHaveBeenCalledWith(expect.objectContaining({ access_token: 'refreshed-token' }));
+      const [, replayInit] = mockFetch.mock.calls[2];
+      expect(replayInit.headers['Authorization']).toBe('Bearer refreshed-token');
+    });
+
+    it('should keep stored tokens when the refresh after a 401 fails with a network error', async () => {
+      mockFetch
+        .mockResolvedValueOnce(global.createMockErrorResponse(401, 'Unauthorized'))
+        .mockRejectedValueOnce(new Error('socket hang up'));
+      const tokenStore = new InMemoryTokenStore();
+      const client = new WhoopHttpClient({
+        oauth: { ...oauth, tokenStore },
+        accessToken: 'expired-token',
+        refreshToken: 'refresh-token'
+      });
+
+      await expect(client.get('/v1/user/profile/basic', { maxRetries: 0 })).rejects.toBeInstanceOf(WhoopAuthError);
+
+      expect(client.getTokens()?.refresh_token).toBe('refresh-token');
+      await expect(tokenStore.get('default')).resolves.toMatchObject({ refresh_token: 'refresh-token' });
+    });
+
+    it('should clear stored tokens when the token endpoint rejects the refresh token', async () => {
+      mockFetch
+        .mockResolvedValueOnce(global.createMockErrorResponse(401, 'Unauthorized'))
+        .mockResolvedValueOnce(global.createMockErrorResponse(400, 'invalid_grant'));
+      const tokenStore = new InMemoryTokenStore();
+      const client = new WhoopHttpClient({
+        oauth: { ...oauth, tokenStore },
+        accessToken: 'expired-token',
+        refreshToken: 'refresh-token'
+      });
+
+      await expect(client.get('/v1/user/profile/basic', { maxRetries: 0 })).rejects.toBeInstanceOf(WhoopAuthError);
+
+      expect(client.getTokens()).toBeUndefined();
+      await expect(tokenStore.get('default')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('Transport', () => {
+    it('should send API and token requests through the configured fetch', async () => {
+      const transport = jest.fn()
+        .mockResolvedValueOnce(global.createMockResponse({
+          access_token: 'refreshed-token',
+          refresh_token: 'refresh-token',
+          expires_in: 3600,
+          token_type: 'Bearer',
+          scope: 'read:profile offline'
+        }))
+        .mockResolvedValueOnce(global.createMockResponse(global.testData.userProfile));
+      const client = new WhoopHttpClient({
+        oauth,
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        fetch: transport
+      });
+
+      await client.getOAuthClient()!.refreshAccessToken();
+      await client.get('/v1/user/profile/basic');
+
+      expect(transport).toHaveBeenCalledTimes(2);
+      expect(transport.mock.calls[0][0]).toContain('/oauth/oauth2/token');
+      expect(transport.mock.calls[1][0]).toContain('/v1/user/profile/basic');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should fail with a configuration error when no fetch is available', async () => {
+      const globalFetch = global.fetch;
+      delete (global as any).fetch;
+
+      try {
+        const client = new WhoopHttpClient({ oauth, accessToken: 'access-token', refreshToken: 'refresh-token' });
+        await expect(client.get('/v1/cycle', { retries: 1 })).rejects.toThrow('No fetch implementation available');
+      } finally {
+        global.fetch = globalFetch;
+      }
+    });
+  });
+
+  describe('Rate Limiting', () => {
+    it('should reject requests over the client-side budget without hitting the network', async () => {
+      mockFetch.mockResolvedValue(global.createMockResponse(global.testData.userProfile));
+      const client = new WhoopHttpClient({
+        oauth,
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        rateLimit: { app: { requestsPerMinute: 1 }, strategy: 'reject' }
+      });
+
+      await client.get('/v1/user/profile/basic');
+      await expect(client.get('/v1/cycle')).rejects.toBeInstanceOf(WhoopClientRateLimitError);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(client.getPerformanceStats().rateLimit).toMatchObject({
+        acquired: 1,
+        rejected: 1,
+        remaining: { app: { minute: 0 } }
+      });
+    });
+
+    it('should share a limiter instance between clients', async () => {
+      mockFetch.mockResolvedValue(global.createMockResponse(global.testData.userProfile));
+      const rateLimit = new WhoopRateLimiter({ user: { requestsPerMinute: 1 }, strategy: 'reject' });
+      const first = new WhoopHttpClient({ oauth, accessToken: 'token-a', refreshToken: 'refresh-a', rateLimit });
+      const second = new WhoopHttpClient({ oauth, accessToken: 'token-b', refreshToken: 'refresh-b', rateLimit });
+
+      await first.get('/v1/user/profile/basic');
+      await second.get('/v1/user/profile/basic');
+
+      expect(first.getPerformanceStats().rateLimit?.remaining).toEqual({
+        app: { minute: 98, day: 9998 },
+        user: { minute: 0 }
+      });
+      await expect(first.get('/v1/cycle')).rejects.toMatchObject({ scope: 'user' });
+    });
+
+    it('should report user budgets without tracking new users', async () => {
+      mockFetch.mockResolvedValue(global.createMockResponse(global.testData.userProfile));
+      const rateLimit = new WhoopRateLimiter({ user: { requestsPerMinute: 5 } });
+      const idle = new WhoopHttpClient({ oauth, accessToken: 'token-a', refreshToken: 'refresh-a', rateLimit });
+      const provided = new WhoopHttpClient({ tokenProvider: async () => 'provided-token', rateLimit });
+
+      expect(idle.getPerformanceStats().rateLimit?.remaining.user).toEqual({ minute: 5 });
+      expect(rateLimit.getStats().trackedUsers).toBe(0);
+
+      await provided.get('/v1/user/profile/basic');
+
+      expect(provided.getPerformanceStats().rateLimit?.remaining.user).toEqual({ minute: 4 });
+      expect(rateLimit.getStats().trackedUsers).toBe(1);
+    });
+  });
+
+  describe('Rate Limit Headers', () => {
+    it('should expose the latest rate limit state', async () => {
+      mockFetch.mockResolvedValue(global.createMockResponse(global.testData.userProfile, 200, {
+        'x-ratelimit-limit': '100',
+        'x-ratelimit-remaining': '42',
+        'x-ratelimit-reset': '30'
+      }));
+      const client = new WhoopHttpClient({ oauth, accessToken: 'access-token', refreshToken: 'refresh-token' });
+
+      expect(client.getRateLimitState()).toBeUndefined();
+      await client.get('/v1/user/profile/basic');
+
+      expect(client.getRateLimitState()).toEqual({
+        limit: 100,
+        remaining: 42,
+        resetAt: Date.now() + 30000,
+        observedAt: Date.now()
+      });
+    });
+
+    it('should wait for Retry-After before retrying a 429', async () => {
+      mockFetch
+        .mockResolvedValueOnce(global.createMockResponse({ message: 'Slow down' }, 429, { 'retry-after': '5' }))
+        .mockResolvedValueOnce(global.createMockResponse(global.testData.userProfile));
+      const client = new WhoopHttpClient({ oauth, accessToken: 'access-token', refreshToken: 'refresh-token' });
+
+      const pending = client.get('/v1/user/profile/basic', { retries: 2 });
+
+      await jest.advanceTimersByTimeAsync(4999);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1);
+      await expect(pending).resolves.toEqual(global.testData.userProfile);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should surface the rate limit error when Retry-After exceeds the retry budget', async () => {
+      mockFetch.mockResolvedValue(global.createMockResponse({ message: 'Slow down' }, 429, { 'retry-after': '120' }));
+      const client = new WhoopHttpClient({ oauth, accessToken: 'access-token', refreshToken: 'refresh-token' });
+
+      const error = await client.get('/v1/user/profile/basic', { retries: 3 }).catch(e => e);
+
+      expect(error).toBeInstanceOf(WhoopRateLimitError);
+      expect(error.retryAfter).toBe(120);
+      expect(error.rateLimit).toMatchObject({ retryAfterMs: 120000 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Retry Policy', () => {
+    it('should honor maxRetries and retryDelay per request', async () => {
+      const onRequestEnd = jest.fn();
+      mockFetch
+        .mockResolvedValueOnce(global.createMockErrorResponse(503, 'unavailable'))
+        .mockResolvedValueOnce(global.createMockErrorResponse(503, 'unavailable'))
+        .mockResolvedValueOnce(global.createMockResponse(global.testData.userProfile));
+      const client = new WhoopHttpClient({
+        oauth,
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        retryPolicy: { maxRetries: 0, jitter: 'none' },
+        performance: { hooks: { onRequestEnd } }
+      });
+
+      const pending = client.get('/v1/user/profile/basic', { maxRetries: 2, retryDelay: 100 });
+      await jest.advanceTimersByTimeAsync(300);
+
+      await expect(pending).resolves.toEqual(global.testData.userProfile);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(onRequestEnd).toHaveBeenCalledTimes(1);
+      expect(onRequestEnd).toHaveBeenCalledWith(expect.objectContaining({ retryCount: 2, errorCount: 2 }));
+    });
+
+    it('should apply the global policy and call onRetry', async () => {
+      const onRetry = jest.fn();
+      mockFetch.mockResolvedValue(global.createMockErrorResponse(500, 'boom'));
+      const client = new WhoopHttpClient({
+        oauth,
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        retryPolicy: { maxRetries: 1, baseDelayMs: 50, jitter: 'none', onRetry }
+      });
+
+      const pending = client.get('/v1/cycle').catch(e => e);
+      await jest.advanceTimersByTimeAsync(50);
+
+      expect(await pending).toMatchObject({ status: 500 });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, delayMs: 50 }));
+    });
+
+    it('should not retry statuses excluded by the per-request policy', async () => {
+      mockFetch.mockResolvedValue(global.createMockErrorResponse(503, 'unavailable'));
+      const client = new WhoopHttpClient({ oauth, accessToken: 'access-token', refreshToken: 'refresh-token' });
+
+      await expect(client.get('/v1/cycle', { retryPolicy: { retryOnStatus: [] } })).rejects.toMatchObject({ status: 503 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Circuit Breaker', () => {
+    it('should fail fast once the circuit opens', async () => {
+      const onStateChange = jest.fn();
+      mockFetch.mockResolvedValue(global.createMockErrorResponse(503, 'unavailable'));
+      const client = new WhoopHttpClient({
+        oauth,
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        circuitBreaker: { minimumRequests: 2, failureRateThreshold: 0.5, onStateChange }
+      });
+
+      await expect(client.get('/v1/cycle', { maxRetries: 0 })).rejects.toMatchObject({ status: 503 });
+      await expect(client.get('/v1/cycle', { maxRetries: 0 })).rejects.toMatchObject({ status: 503 });
+      await expect(client.get('/v1/cycle')).rejects.toBeInstanceOf(WhoopCircuitOpenError);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(onStateChange).toHaveBeenCalledWith(expect.objectContaining({ to: 'open' }));
+      expect(client.getPerformanceStats().circuitBreaker).toMatchObject({ opened: 1, rejected: 1 });
+    });
+
+    it('should stop retrying when the circuit opens mid-request', async () => {
+      mockFetch.mockResolvedValue(global.createMockErrorResponse(500, 'boom'));
+      const client = new WhoopHttpClient({
+        oauth,
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        retryPolicy: { maxRetries: 5, baseDelayMs: 10, jitter: 'none' },
+        circuitBreaker: new WhoopCircuitBreaker({ minimumRequests: 2 })
+      });
+
+      const pending = client.get('/v1/cycle').catch(e => e);
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(await pending).toBeInstanceOf(WhoopCircuitOpenError);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Response Metadata', () => {
+    it('should resolve with status, headers, attempts and timing', async () => {
+      mockFetch
+        .mockResolvedValueOnce(global.createMockErrorResponse(503, 'unavailable'))
+        .mockResolvedValueOnce(global.createMockResponse(global.testData.userProfile, 200, { 'X-Request-Id': 'whoop-123' }));
+      const client = new WhoopHttpClient({ oauth, accessToken: 'access-token', refreshToken: 'refresh-token' });
+
+      const pending = client.requestWithResponse('GET', '/v1/user/profile/basic', {
+        retryPolicy: { baseDelayMs: 100, jitter: 'none' }
+      });
+      await jest.advanceTimersByTimeAsync(100);
+      const response = await pending;
+
+      expect(response).toEqual({
+        data: global.testData.userProfile,
+        status: 200,
+        headers: { 'content-type': 'application/json', 'x-request-id': 'whoop-123' },
+        requestId: expect.any(String),
+        url: 'https://api.prod.whoop.com/developer/v1/user/profile/basic',
+        attempts: 2,
+        durationMs: 100,
+        cacheStatus: 'skip'
+      });
+    });
+
+    it('should report cache hits without attempts', async () => {
+      const client = new WhoopHttpClient({
+        oauth,
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        performance: { cache: { ttl: 60000 } }
+      });
+
+      await client.get('/v1/user/profile/basic');
+      const response = await client.requestWithResponse('GET', '/v1/user/profile/basic');
+
+      expect(response).toMatchObject({ status: 200, attempts: 0, cacheStatus: 'hit' });
+    });
+
+    it('should expose a withResponse() variant of every endpoint', async () => {
+      mockFetch.mockResolvedValue(global.createMockResponse(global.testData.cycleData));
+      const client = new WhoopHttpClient({ oauth, accessToken: 'access-token', refreshToken: 'refresh-token' });
+      const { cycles } = createEndpoints(client);
+
+      const response = await cycles.withResponse().getById(93845);
+
+      expect(response.data).toEqual(global.testData.cycleData);
+      expect(response.status).toBe(200);
+      expect(response.url).toContain('/v1/cycle/93845');
+      expect(client.getPerformanceStats().totalRequests).toBe(1);
+    });
+
+    it('should report no metadata when a method resolves without a response', async () => {
+      mockFetch.mockResolvedValue(global.createMockErrorResponse(404, 'Not found'));
+      const client = new WhoopHttpClient({ oauth, accessToken: 'access-token', refreshToken: 'refresh-token' });
+      const { cycles } = createEndpoints(client);
+
+      const response = await cycles.withResponse().getRecoverySafe(93845);
+
+      expect(response).toEqual({ data: null });
+    });
+
+    it('should report no metadata for methods that make several requests', async () => {
+      mockFetch
+        .mockResolvedValueOnce(global.createMockResponse(global.testData.cycleData))
+        .mockResolvedValueOnce(global.createMockResponse(global.testData.recoveryData.records[0]));
+      const client = new WhoopHttpClient({ oauth, accessToken: 'access-token', refreshToken: 'refresh-token' });
+      const { cycles } = createEndpoints(client);
+
+      const response = await cycles.withResponse().getCurrentRecovery();
+
+      expect(response.data.recovery).toEqual(global.testData.recoveryData.records[0]);
+      expect(response.status).toBeUndefined();
+      expect(response.requestId).toBeUndefined();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Response Validation', () => {
+    const driftedProfile = { user_id: '10129', email: 'athlete@example.com', first_name: 'Sam' };
+
+    it('should throw listing the offending paths in strict mode', async () => {
+      mockFetch.mockResolvedValue(global.createMockResponse(driftedProfile));
+      const client = new WhoopHttpClient({
+        oauth,
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        responseValidation: 'strict'
+      });
+
+      const error = await createEndpoints(client).user.getProfile().catch(e => e);
+
+      expect(error).toBeInstanceOf(WhoopResponseValidationError);
+      expect(error.issues.map((issue: { path: string }) => issue.path)).toEqual(['user_id', 'last_name']);
+      expect(error.message).toContain('/v1/user/profile/basic');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should log and pass the body through in lenient mode', async () => {
+      const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      mockFetch.mockResolvedValue(global.createMockResponse(driftedProfile));
+      const client = new WhoopHttpClient({
+        oauth,
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        responseValidation: 'lenient',
+        logger
+      });
+
+      await expect(createEndpoints(client).user.getProfile()).resolves.toEqual(driftedProfile);
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Response does not match the expected schema',
+        expect.objectContaining({ issues: expect.arrayContaining([expect.objectContaining({ path: 'user_id' })]) })
+      );
+    });
+
+    it('should let a request override the SDK setting', async () => {
+      mockFetch.mockResolvedValue(global.createMockResponse(driftedProfile));
+      const client = new WhoopHttpClient({
+        oauth,
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        responseValidation: 'strict'
+      });
+
+      await expect(createEndpoints(client).user.getProfile({ responseValidation: 'off' })).resolves.toEqual(driftedProfile);
+    });
+  });
+
+  describe('Metrics Export', () => {
+    it('should report requests and token refreshes from every client sharing an exporter', async () => {
+      const exporter = new PrometheusExporter();
+      mockFetch
+        .mockResolvedValueOnce(global.createMockErrorResponse(401, 'expired'))
+        .mockResolvedValueOnce(global.createMockResponse({ access_token: 'new-token', refresh_token: 'new-refresh', expires_in: 3600 }))
+        .mockResolvedValue(global.createMockResponse(global.testData.userProfile));
+      const first = new WhoopHttpClient({ oauth, accessToken: 'a', refreshToken: 'r', performance: { metrics: exporter } });
+      const second = new WhoopHttpClient({ oauth, accessToken: 'b', refreshToken: 'r', performance: { metrics: exporter } });
+
+      await first.get('/v1/user/profile/basic');
+      await second.get('/v1/user/profile/basic');
+
+      const output = exporter.render();
+      expect(output).toContain('whoop_sdk_requests_total{method="GET",route="/developer/v1/user/profile/basic",status="200"} 2');
+      expect(output).toContain('whoop_sdk_token_refreshes_total{outcome="success"} 1');
+    });
+  });
+
+  describe('Tracing', () => {
+    interface RecordedSpan {
+      name: string;
+      attributes: Record<string, unknown>;
+      events: Array<{ name: string; attributes?: Record<string, unknown> }>;
+      status?: { code: number; message?: string };
+      ended: boolean;
+    }
+
+    let spans: RecordedSpan[];
+    const tracer = {
+      startSpan: (name: string, options?: { attributes?: Record<string, any> }) => {
+        const recorded: RecordedSpan = { name, attributes: { ...options?.attributes }, events: [], ended: false };
+        const index = spans.push(recorded);
+        return {
+          setAttribute: (key: string, value: unknown) => { recorded.attributes[key] = value; },
+          addEvent: (event: string, attributes?: Record<string, unknown>) => { recorded.events.push({ name: event, ...(attributes && { attributes }) }); },
+          recordException: () => {},
+          setStatus: (status: { code: number; message?: string }) => { recorded.status = status; },
+          end: () => { recorded.ended = true; },
+          spanContext: () => ({ traceId: '0af7651916cd43dd8448eb211c80319c', spanId: index.toString(16).padStart(16, '0'), traceFlags: 1 })
+        };
+      }
+    };
+
+    beforeEach(() => {
+      spans = [];
+    });
+
+    it('should record one span per request with retry events and propagated headers', async () => {
+      mockFetch
+        .mockResolvedValueOnce(global.createMockErrorResponse(503, 'unavailable'))
+        .mockResolvedValueOnce(global.createMockResponse(global.testData.userProfile));
+      const client = new WhoopHttpClient({
+        oauth,
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        retryPolicy: { baseDelayMs: 100, jitter: 'none' },
+        tracing: { tracer }
+      });
+
+      const pending = client.get('/v1/cycle/123');
+      await jest.advanceTimersByTimeAsync(100);
+      await pending;
+
+      expect(spans).toHaveLength(1);
+      expect(spans[0]).toMatchObject({
+        name: 'WHOOP GET /developer/v1/cycle/:id',
+        attributes: {
+          'http.request.method': 'GET',
+          'url.full': 'https://api.prod.whoop.com/developer/v1/cycle/123',
+          'http.response.status_code': 200,
+          'whoop.attempts': 2
+        },
+        events: [{ name: 'retry', attributes: { 'whoop.attempt': 1, 'whoop.retry_delay_ms': 100, 'error.type': 'WhoopAPIError' } }],
+        status: { code: 1 },
+        ended: true
+      });
+      for (const [, init] of mockFetch.mock.calls) {
+        expect(init.headers.traceparent).toBe('00-0af7651916cd43dd8448eb211c80319c-0000000000000001-01');
+      }
+    });
+
+    it('should mark failed requests as errors', async () => {
+      mockFetch.mockResolvedValue(global.createMockErrorResponse(404, 'not found'));
+      const client = new WhoopHttpClient({ oauth, accessToken: 'access-token', refreshToken: 'refresh-token', tracing: { tracer } });
+
+      await expect(client.get('/v1/cycle/123')).rejects.toMatchObject({ status: 404 });
+
+      expect(spans[0]).toMatchObject({
+        attributes: { 'http.response.status_code': 404 },
+        status: { code: 2 },
+        ended: true
+      });
+    });
+
+    it('should trace token refreshes triggered by a request', async () => {
+      mockFetch
+        .mockResolvedValueOnce(global.createMockErrorResponse(401, 'expired'))
+        .mockResolvedValueOnce(global.createMockResponse({ access_token: 'new-token', refresh_token: 'new-refresh', expires_in: 3600 }))
+        .mockResolvedValueOnce(global.createMockResponse(global.testData.userProfile));
+      const client = new WhoopHttpClient({ oauth, accessToken: 'access-token', refreshToken: 'refresh-token', tracing: { tracer } });
+
+      await client.get('/v1/user/profile/basic');
+
+      expect(spans.map(span => span.name)).toEqual(['WHOOP GET /developer/v1/user/profile/basic', 'WHOOP OAuth token refresh']);
+      expect(spans[0]!.events).toEqual([{ name: 'token.refresh', attributes: { 'whoop.outcome': 'success' } }]);
+      expect(spans[1]).toMatchObject({ attributes: { 'http.response.status_code': 200 }, status: { code: 1 }, ended: true });
+      expect(mockFetch.mock.calls[1][1].headers.traceparent).toMatch(/^00-0af7651916cd43dd8448eb211c80319c-0000000000000002-01$/);
+    });
+  });
+
+  describe('Performance Metrics', () => {
+    it('should fire every hook with real request values', async () => {
+      const hooks = { onRequestStart: jest.fn(), onRequestEnd: jest.fn(), onSlowRequest: jest.fn() };
+      mockFetch
+        .mockResolvedValueOnce(global.createMockErrorResponse(503, 'unavailable'))
+        .mockResolvedValueOnce(global.createMockResponse(global.testData.userProfile, 200, { 'content-length': '512' }));
+      const client = new WhoopHttpClient({
+        oauth,
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        retryPolicy: { baseDelayMs: 3000, jitter: 'none' },
+        performance: { cache: {}, hooks, slowRequestThreshold: 2000 }
+      });
+
+      const pending = client.get('/v1/cycle/123');
+      await jest.advanceTimersByTimeAsync(3000);
+      await pending;
+
+      expect(hooks.onRequestStart).toHaveBeenCalledWith(
+        'https://api.prod.whoop.com/developer/v1/cycle/123',
+        expect.objectContaining({ method: 'GET' })
+      );
+      const expected = {
+        method: 'GET',
+        route: '/developer/v1/cycle/:id',
+        status: 200,
+        success: true,
+        duration: 3000,
+        responseSize: 512,
+        cacheStatus: 'miss',
+        retryCount: 1,
+        errorCount: 1
+      };
+      expect(hooks.onRequestEnd).toHaveBeenCalledWith(expect.objectContaining(expected));
+      expect(hooks.onSlowRequest).toHaveBeenCalledWith(expect.objectContaining(expected));
+    });
+
+    it('should report failed requests', async () => {
+      const onRequestEnd = jest.fn();
+      mockFetch.mockResolvedValue(global.createMockErrorResponse(404, 'not found'));
+      const client = new WhoopHttpClient({
+        oauth,
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        performance: { hooks: { onRequestEnd } }
+      });
+
+      await expect(client.get('/v1/cycle/123')).rejects.toMatchObject({ status: 404 });
+
+      expect(onRequestEnd).toHaveBeenCalledWith(expect.objectContaining({
+        status: 404,
+        success: false,
+        retryCount: 0,
+        errorCount: 1
+      }));
+    });
+
+    it('should aggregate per-route counts, error rates and latency', async () => {
+      const client = new WhoopHttpClient({ oauth, accessToken: 'access-token', refreshToken: 'refresh-token' });
+      mockFetch.mockImplementation(async (url: string) => {
+        await new Promise(resolve => setTimeout(resolve, 40));
+        return url.endsWith('/404')
+          ? global.createMockErrorResponse(404, 'not found')
+          : global.createMockResponse(global.testData.userProfile);
+      });
+
+      const requests = Promise.allSettled([
+        client.get('/v1/cycle/1'),
+        client.get('/v1/cycle/2'),
+        client.get('/v1/cycle/404'),
+        client.get('/v1/user/profile/basic')
+      ]);
+      await jest.advanceTimersByTimeAsync(40);
+      await requests;
+
+      const stats = client.getPerformanceStats();
+      expect(stats).toMatchObject({
+        totalRequests: 4,
+        completedRequests: 4,
+        failedRequests: 1,
+        errorRate: 0.25,
+        avgResponseTime: 40,
+        slowRequests: 0,
+        routes: {
+          'GET /developer/v1/cycle/:id': { requests: 3, failedRequests: 1, errorRate: 1 / 3, avgResponseTime: 40 },
+          'GET /developer/v1/user/profile/basic': { requests: 1, failedRequests: 0, errorRate: 0 }
+        }
+      });
+      expect(stats.latency.p50).toBeGreaterThan(25);
+      expect(stats.latency.p99).toBeLessThanOrEqual(40);
+      expect(stats.histogram.count).toBe(4);
+
+      client.reset();
+      expect(client.getPerformanceStats()).toMatchObject({ completedRequests: 0, routes: {} });
+    });
+  });
+
+  describe('Cancellation and Timeouts', () => {
+    const abortable = (_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+      init.signal!.addEventListener('abort', () => reject(new Error('The operation was aborted')));
+    });
+
+    it('should raise WhoopAbortError when the caller cancels', async () => {
+      mockFetch.mockImplementation(abortable);
+      const controller = new AbortController();
+      const client = new WhoopHttpClient({ oauth, accessToken: 'access-token', refreshToken: 'refresh-token' });
+
+      const pending = client.post('/v1/activity', { signal: controller.signal }).catch(e => e);
+      await jest.advanceTimersByTimeAsync(0);
+      controller.abort();
+
+      const error = await pending;
+      expect(error).toBeInstanceOf(WhoopAbortError);
+      expect(error).not.toBeInstanceOf(WhoopTimeoutError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report the timeout and phase that expired', async () => {
+      mockFetch.mockImplementation(abortable);
+      const client = new WhoopHttpClient({ oauth, accessToken: 'access-token', refreshToken: 'refresh-token' });
+
+      const pending = client.get('/v1/cycle', { timeout: 500, maxRetries: 0 }).catch(e => e);
+      await jest.advanceTimersByTimeAsync(500);
+
+      const error = await pending;
+      expect(error).toBeInstanceOf(WhoopTimeoutError);
+      expect(error).toMatchObject({ timeoutMs: 500, phase: 'headers', message: 'Request timed out after 500ms waiting for a response' });
+    });
+
+    it('should tell body read timeouts apart', async () => {
+      mockFetch.mockImplementation(async (_url: string, init: RequestInit) => ({
+        ...global.createMockResponse({}),
+        json: () => new Promise((_resolve, reject) => {
+          init.signal!.addEventListener('abort', () => reject(new Error('The operation was aborted')));
+        })
+      }));
+      const client = new WhoopHttpClient({ oauth, accessToken: 'access-token', refreshToken: 'refresh-token' });
+
+      const pending = client.get('/v1/cycle', { timeout: 500, maxRetries: 0 }).catch(e => e);
+      await jest.advanceTimersByTimeAsync(500);
+
+      expect(await pending).toMatchObject({ timeoutMs: 500, phase: 'body' });
+    });
+
+    it('should stop retrying as soon as the caller cancels a backoff', async () => {
+      mockFetch.mockResolvedValue(global.createMockErrorResponse(503, 'unavailable'));
+      const controller = new AbortController();
+      const client = new WhoopHttpClient({ oauth, accessToken: 'access-token', refreshToken: 'refresh-token' });
+
+      const pending = client.post('/v1/activity', {
+        signal: controller.signal,
+        retryPolicy: { maxRetries: 3, baseDelayMs: 10000, jitter: 'none' }
+      }).catch(e => e);
+      await jest.advanceTimersByTimeAsync(0);
+      controller.abort();
+
+      expect(await pending).toBeInstanceOf(WhoopAbortError);
+      await jest.advanceTimersByTimeAsync(60000);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Token Expiry', () => {
+    it('should keep the expiry and scope passed to the constructor', () => {
+      const expiresAt = Date.now() + 20 * 60 * 1000;
+      const client = new WhoopHttpClient({
+        oauth,
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        expiresAt,
+        scope: 'read:cycles offline'
+      });
+
+      expect(client.getTokens()).toMatchObject({ expires_at: expiresAt, expires_in: 1200, scope: 'read:cycles offline' });
+      expect(client.isAuthenticated()).toBe(true);
+    });
+
+    it('should not invent an expiry when none is given', () => {
+      const client = new WhoopHttpClient({ oauth, accessToken: 'access-token', refreshToken: 'refresh-token' });
+
+      expect(client.getTokens()?.expires_at).toBeUndefined();
+      expect(client.getTokens()?.scope).toBe('');
+    });
+
+    it('should refresh before a request once the token has expired', async () => {
+      mockFetch
+        .mockResolvedValueOnce(global.createMockResponse({ access_token: 'refreshed-token', refresh_token: 'refresh-token', expires_in: 3600 }))
+        .mockResolvedValueOnce(global.createMockResponse(global.testData.userProfile));
+      const client = new WhoopHttpClient({
+        oauth,
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        expiresAt: Date.now() + 60 * 60 * 1000
+      });
+
+      jest.advanceTimersByTime(56 * 60 * 1000);
+      await client.get('/v1/user/profile/basic');
+
+      expect(mockFetch.mock.calls[0][0]).toContain('/oauth/oauth2/token');
+      expect(mockFetch.mock.calls[1][1].headers['Authorization']).toBe('Bearer refreshed-token');
+    });
+  });
+
+  describe('Authentication Modes', () => {
+    const authHeader = (call: number) => mockFetch.mock.calls[call][1].headers['Authorization'];
+
+    it('should send a static access token without OAuth config', async () => {
+      const client = new WhoopHttpClient({ accessToken: 'static-token' });
+
+      await client.get('/v1/user/profile/basic');
+
+      expect(authHeader(0)).toBe('Bearer static-token');
+      expect(client.isAuthenticated()).toBe(true);
+    });
+
+    it('should not try to refresh a static token', async () => {
+      mockFetch.mockResolvedValueOnce(global.createMockErrorResponse(401, 'Unauthorized'));
+      const client = new WhoopHttpClient({ accessToken: 'static-token' });
+
+      await expect(client.get('/v1/user/profile/basic', { maxRetries: 0 })).rejects.toBeInstanceOf(WhoopAuthError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use an access token without a refresh token alongside OAuth config', async () => {
+      const client = new WhoopHttpClient({ oauth, accessToken: 'access-token' });
+
+      await client.get('/v1/user/profile/basic');
+
+      expect(authHeader(0)).toBe('Bearer access-token');
+    });
+
+    it('should keep an access token without a refresh token after a 401', async () => {
+      mockFetch.mockResolvedValueOnce(global.createMockErrorResponse(401, 'Unauthorized'));
+      const client = new WhoopHttpClient({ oauth, accessToken: 'access-only' });
+
+      await expect(client.get('/v1/user/profile/basic', { maxRetries: 0 })).rejects.toBeInstanceOf(WhoopAuthError);
+      await client.get('/v1/user/profile/basic');
+
+      expect(authHeader(0)).toBe('Bearer access-only');
+      expect(authHeader(1)).toBe('Bearer access-only');
+      expect(client.getTokens()?.access_token).toBe('access-only');
+    });
+
+    it('should fetch tokens from a token provider', async () => {
+      const tokenProvider = jest.fn().mockResolvedValue('provided-token');
+      const client = new WhoopHttpClient({ tokenProvider });
+
+      await client.get('/v1/user/profile/basic');
+
+      expect(authHeader(0)).toBe('Bearer provided-token');
+      expect(tokenProvider).toHaveBeenCalledTimes(1);
+      expect(tokenProvider).toHaveBeenCalledWith({ forceRefresh: false });
+    });
+
+    it('should ask the token provider for a new token after a 401', async () => {
+      mockFetch.mockResolvedValueOnce(global.createMockErrorResponse(401, 'Unauthorized'));
+      let currentToken = 'cached-token';
+      const tokenProvider = jest.fn(async ({ forceRefresh }: { forceRefresh: boolean }) => {
+        if (forceRefresh) {
+          currentToken = 'new-token';
+        }
+        return currentToken;
+      });
+      const client = new WhoopHttpClient({ tokenProvider });
+
+      await expect(client.get('/v1/user/profile/basic')).resolves.toEqual(global.testData.userProfile);
+
+      expect(tokenProvider).toHaveBeenCalledWith({ forceRefresh: true });
+      expect(authHeader(0)).toBe('Bearer cached-token');
+      expect(authHeader(1)).toBe('Bearer new-token');
+    });
+
+    it('should replay with the forced token from a provider without a cache', async () => {
+      mockFetch.mockResolvedValueOnce(global.createMockErrorResponse(401, 'Unauthorized'));
+      const tokenProvider = jest.fn(async ({ forceRefresh }: { forceRefresh: boolean }) =>
+        forceRefresh ? 'new-token' : 'stale-token');
+      const client = new WhoopHttpClient({ tokenProvider });
+
+      await expect(client.get('/v1/user/profile/basic')).resolves.toEqual(global.testData.userProfile);
+
+      expect(authHeader(0)).toBe('Bearer stale-token');
+      expect(authHeader(1)).toBe('Bearer new-token');
+      expect(tokenProvider).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fail the request when the token provider fails', async () => {
+      const client = new WhoopHttpClient({ tokenProvider: () => Promise.reject(new Error('token service down')) });
+
+      await expect(client.get('/v1/user/profile/basic', { maxRetries: 0 }))
+        .rejects.toThrow('Token provider failed: token service down');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token provider combined with an access token', () => {
+      expect(() => new WhoopHttpClient({ accessToken: 'token', tokenProvider: async () => 'token' }))
+        .toThrow(WhoopConfigError);
+    });
+  });
+
+  describe('Scope Checks', () => {
+    const createClient = (scope: string) => {
+      const client = new WhoopHttpClient({ oauth });
+      client.setTokens({ ...global.testData.validTokens, scope });
+      return client;
+    };
+
+    it('should fail before sending when a scope was not granted', async () => {
+      const { sleep } = createEndpoints(createClient('read:profile read:cycles offline'));
+
+      const error = await sleep.list().catch(e => e);
+
+      expect(error).toBeInstanceOf(WhoopScopeError);
+      expect(error.missingScopes).toEqual(['read:sleep']);
+      expect(error.message).toContain('read:sleep');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should report granted and missing scopes', () => {
+      const client = createClient('read:profile read:cycles offline');
+
+      expect(client.hasScope('read:cycles')).toBe(true);
+      expect(client.missingScopes(['read:cycles', 'read:recovery', 'read:sleep'])).toEqual(['read:recovery', 'read:sleep']);
+    });
+
+    it('should not check scopes that are unknown', async () => {
+      const client = new WhoopHttpClient({ tokenProvider: async () => 'provided-token' });
+
+      await createEndpoints(client).sleep.list();
+
+      expect(client.getGrantedScopes()).toBeUndefined();
+      expect(client.hasScope('read:sleep')).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip summary parts that were not granted', async () => {
+      const { user } = createEndpoints(createClient('read:profile offline'));
+
+      const summary = await user.getSummary();
+
+      expect(summary.profile).toEqual(global.testData.userProfile);
+      expect(summary.bodyMeasurement).toBeUndefined();
+      expect(summary.currentRecovery).toBeUndefined();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should include the current recovery when its scopes were granted', async () => {
+      const recovery = global.testData.recoveryData.records[0];
+      mockFetch.mockImplementation(async (url: string) => {
+        if (url.includes('/recovery')) {
+          return global.createMockResponse(recovery);
+        }
+        if (url.includes('/cycle')) {
+          return global.createMockResponse(global.testData.cycleData);
+        }
+        return global.createMockResponse(global.testData.userProfile);
+      });
+      const { user } = createEndpoints(createClient('read:profile read:cycles read:recovery offline'));
+
+      const summary = await user.getSummary();
+
+      expect(summary.currentCycle).toEqual(global.testData.cycleData.records[0]);
+      expect(summary.currentRecovery).toEqual(recovery);
+      expect(summary.bodyMeasurement).toBeUndefined();
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,130 @@
+/**
+ * Circuit Breaker Tests
+ * Tests for circuit state transitions and fail-fast behavior
+ */
+
+import { WhoopCircuitBreaker } from '../../src/utils/circuit-breaker';
+import { WhoopCircuitOpenError, WhoopNetworkError } from '../../src/errors';
+
+describe('WhoopCircuitBreaker', () => {
+  const key = 'api.prod.whoop.com';
+  let onStateChange: jest.Mock;
+  let breaker: WhoopCircuitBreaker;
+
+  const fail = () => {
+    breaker.acquire(key);
+    breaker.record(key, { status: 503 });
+  };
+  const succeed = () => {
+    breaker.acquire(key);
+    breaker.record(key, { status: 200 });
+  };
+
+  beforeEach(() => {
+    onStateChange = jest.fn();
+    breaker = new WhoopCircuitBreaker({
+      failureRateThreshold: 0.5,
+      minimumRequests: 4,
+      windowMs: 10000,
+      cooldownMs: 5000,
+      onStateChange
+    });
+  });
+
+  it('should stay closed until the minimum number of requests is reached', () => {
+    fail();
+    fail();
+    fail();
+
+    expect(breaker.getState(key)).toBe('closed');
+  });
+
+  it('should open once the failure rate crosses the threshold', () => {
+    succeed();
+    succeed();
+    fail();
+    fail();
+
+    expect(breaker.getState(key)).toBe('open');
+    expect(onStateChange).toHaveBeenCalledWith(expect.objectContaining({
+      circuit: key,
+      from: 'closed',
+      to: 'open',
+      failureRate: 0.5
+    }));
+    expect(() => breaker.acquire(key)).toThrow(WhoopCircuitOpenError);
+    expect(breaker.getStats()).toMatchObject({ opened: 1, rejected: 1 });
+  });
+
+  it('should only count failures inside the rolling window', () => {
+    fail();
+    fail();
+    jest.advanceTimersByTime(10000);
+    succeed();
+    succeed();
+    fail();
+
+    expect(breaker.getState(key)).toBe('closed');
+    expect(breaker.getStats().circuits[key]).toMatchObject({ requests: 3, failures: 1 });
+  });
+
+  it('should report the remaining cool-down on rejection', () => {
+    for (let i = 0; i < 4; i++) fail();
+    jest.advanceTimersByTime(2000);
+
+    const error = (() => {
+      try {
+        breaker.acquire(key);
+      } catch (e) {
+        return e as WhoopCircuitOpenError;
+      }
+      return undefined;
+    })();
+
+    expect(error?.code).toBe('CIRCUIT_OPEN_ERROR');
+    expect(error?.retryAfterMs).toBe(3000);
+  });
+
+  it('should close after a successful trial request once cooled down', () => {
+    for (let i = 0; i < 4; i++) fail();
+    jest.advanceTimersByTime(5000);
+
+    expect(breaker.getState(key)).toBe('half-open');
+    breaker.acquire(key);
+
+    // Only one trial request at a time
+    expect(() => breaker.acquire(key)).toThrow(WhoopCircuitOpenError);
+
+    breaker.record(key, { status: 200 });
+    expect(breaker.getState(key)).toBe('closed');
+    expect(onStateChange.mock.calls.map(call => call[0].to)).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  it('should reopen when the trial request fails', () => {
+    for (let i = 0; i < 4; i++) fail();
+    jest.advanceTimersByTime(5000);
+
+    breaker.acquire(key);
+    breaker.record(key, { error: new WhoopNetworkError('socket hang up') });
+
+    expect(breaker.getState(key)).toBe('open');
+  });
+
+  it('should free the trial slot when a request is released', () => {
+    for (let i = 0; i < 4; i++) fail();
+    jest.advanceTimersByTime(5000);
+
+    breaker.acquire(key);
+    breaker.release(key);
+
+    expect(() => breaker.acquire(key)).not.toThrow();
+  });
+
+  it('should key circuits by host or by route', () => {
+    const byRoute = new WhoopCircuitBreaker({ scope: 'route' });
+    const url = 'https://api.prod.whoop.com/developer/v1/cycle/93845/recovery';
+
+    expect(breaker.getCircuitKey('get', url)).toBe('api.prod.whoop.com');
+    expect(byRoute.getCircuitKey('get', url)).toBe('GET /developer/v1/cycle/:id/recovery');
+  });
+});
\ No newline at end of file
@@ -42,21 +42,34 @@ describe('RequestDeduplicator', () => {
       expect(mockRequestFn).toHaveBeenCalledTimes(1); // Only called once
     });
 
-    it('should not deduplicate requests outside the window', async () => {
+    it('should not deduplicate requests once the first has settled', async () => {
       mockRequestFn.mockResolvedValue('result');
       
       // First request
       await deduplicator.execute('test-key', mockRequestFn);
       
-      // Advance time beyond window
-      jest.advanceTimersByTime(150);
-      
       // Second request should not be deduplicated
       await deduplicator.execute('test-key', mockRequestFn);
       
       expect(mockRequestFn).toHaveBeenCalledTimes(2);
     });
 
+    it('should let late callers join a request that is still in flight', async () => {
+      let resolveRequest!: (value: string) => void;
+      mockRequestFn.mockReturnValue(new Promise<string>(resolve => { resolveRequest = resolve; }));
+
+      const promise1 = deduplicator.execute('test-key', mockRequestFn);
+
+      // Well past the window, the first request has not answered yet
+      await jest.advanceTimersByTimeAsync(500);
+      const promise2 = deduplicator.execute('test-key', mockRequestFn);
+
+      resolveRequest('result');
+
+      await expect(Promise.all([promise1, promise2])).resolves.toEqual(['result', 'result']);
+      expect(mockRequestFn).toHaveBeenCalledTimes(1);
+    });
+
     it('should handle different keys separately', async () => {
       mockRequestFn.mockResolvedValue('result');
       
@@ -160,6 +173,66 @@ describe('RequestDeduplicator', () => {
       await expect(promise).rejects.toThrow('Request was cancelled');
     });
 
+    it('should detach a cancelled caller without affecting others', async () => {
+      let resolveRequest: (value: string) => void = () => {};
+      mockRequestFn.mockImplementation(() => new Promise(resolve => { resolveRequest = resolve; }));
+      const controller = new AbortController();
+
+      const promise1 = deduplicator.execute('shared-key', mockRequestFn, { signal: controller.signal });
+      const promise2 = deduplicator.execute('shared-key', mockRequestFn);
+
+      controller.abort();
+      resolveRequest('result');
+
+      await expect(promise1).rejects.toThrow('Request was cancelled');
+      await expect(promise2).resolves.toBe('result');
+      expect(mockRequestFn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort the shared request once every caller has cancelled', async () => {
+      mockRequestFn.mockImplementation(() => new Promise(() => {}));
+      const controller1 = new AbortController();
+      const controller2 = new AbortController();
+
+      const promise1 = deduplicator.execute('shared-key', mockRequestFn, { signal: controller1.signal });
+      const promise2 = deduplicator.execute('shared-key', mockRequestFn, { signal: controller2.signal });
+
+      controller1.abort();
+      const sharedSignal: AbortSignal = mockRequestFn.mock.calls[0][0];
+      expect(sharedSignal.aborted).toBe(false);
+
+      controller2.abort();
+      expect(sharedSignal.aborted).toBe(true);
+
+      await expect(promise1).rejects.toThrow('Request was cancelled');
+      await expect(promise2).rejects.toThrow('Request was cancelled');
+    });
+
+    it('should start a new request for callers arriving after the shared request was aborted', async () => {
+      mockRequestFn
+        .mockImplementationOnce(() => new Promise(() => {}))
+        .mockResolvedValueOnce('fresh');
+      const controller = new AbortController();
+
+      const promise1 = deduplicator.execute('shared-key', mockRequestFn, { signal: controller.signal });
+      controller.abort();
+      const promise2 = deduplicator.execute('shared-key', mockRequestFn);
+
+      await expect(promise1).rejects.toThrow('Request was cancelled');
+      await expect(promise2).resolves.toBe('fresh');
+      expect(mockRequestFn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should remove abort listeners once the request settles', async () => {
+      mockRequestFn.mockResolvedValue('result');
+      const signal = new AbortController().signal;
+      const removeListener = jest.spyOn(signal, 'removeEventListener');
+
+      await deduplicator.execute('shared-key', mockRequestFn, { signal });
+
+      expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+    });
+
     it('should return false for non-existent cancellation', () => {
       const cancelled = deduplicator.cancel('non-existent');
       expect(cancelled).toBe(false);
@@ -0,0 +1,68 @@
+/**
+ * Response Header Utility Tests
+ * Tests for Retry-After and X-RateLimit-* parsing
+ */
+
+import { getServerRetryDelay, parseRateLimitHeaders, parseRetryAfter } from '../../src/utils/headers';
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2024-01-01T00:00:00Z');
+
+  it('should parse delay-seconds', () => {
+    expect(parseRetryAfter('30', now)).toBe(30000);
+    expect(parseRetryAfter(' 1.5 ', now)).toBe(1500);
+  });
+
+  it('should parse HTTP-dates relative to now', () => {
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:45 GMT', now)).toBe(45000);
+  });
+
+  it('should never return a negative delay for past dates', () => {
+    expect(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT', now)).toBe(0);
+  });
+
+  it('should ignore missing or malformed values', () => {
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+});
+
+describe('parseRateLimitHeaders', () => {
+  const now = 1_700_000_000_000;
+
+  it('should read limit, remaining and a relative reset', () => {
+    const headers = new Headers({
+      'X-RateLimit-Limit': '100, 100;window=60, 10000;window=86400',
+      'X-RateLimit-Remaining': '7',
+      'X-RateLimit-Reset': '12'
+    });
+
+    expect(parseRateLimitHeaders(headers, now)).toEqual({
+      limit: 100,
+      remaining: 7,
+      resetAt: now + 12000,
+      observedAt: now
+    });
+  });
+
+  it('should treat large reset values as epoch seconds', () => {
+    const headers = new Headers({ 'X-RateLimit-Reset': '1700000060' });
+
+    expect(parseRateLimitHeaders(headers, now)?.resetAt).toBe(1_700_000_060_000);
+  });
+
+  it('should return undefined when no rate limit headers are present', () => {
+    expect(parseRateLimitHeaders(new Headers({ 'content-type': 'application/json' }), now)).toBeUndefined();
+  });
+});
+
+describe('getServerRetryDelay', () => {
+  it('should prefer Retry-After over the window reset', () => {
+    expect(getServerRetryDelay({ retryAfterMs: 5000, remaining: 0, resetAt: 60000, observedAt: 0 }, 1000)).toBe(4000);
+  });
+
+  it('should wait for the reset once the window is exhausted', () => {
+    expect(getServerRetryDelay({ remaining: 0, resetAt: 60000, observedAt: 0 }, 1000)).toBe(59000);
+    expect(getServerRetryDelay({ remaining: 3, resetAt: 60000, observedAt: 0 }, 1000)).toBeUndefined();
+  });
+});
\ No newline at end of file
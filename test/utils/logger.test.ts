@@ -0,0 +1,111 @@
+/**
+ * Logger Tests
+ * Tests for level filtering and redaction in the SDK logger
+ */
+
+import { createLogger, redactFields, redactString } from '../../src/utils/logger';
+
+describe('SDKLogger', () => {
+  const createTarget = () => ({
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  });
+
+  it('should be silent when no logger is configured', () => {
+    const logger = createLogger({ component: 'http' });
+
+    expect(logger.isLevelEnabled('error')).toBe(false);
+  });
+
+  it('should filter entries below the configured level', () => {
+    const target = createTarget();
+    const logger = createLogger({ logger: target, level: 'warn', component: 'http' });
+
+    logger.debug('debug message');
+    logger.info('info message');
+    logger.warn('warn message');
+    logger.error('error message');
+
+    expect(target.debug).not.toHaveBeenCalled();
+    expect(target.info).not.toHaveBeenCalled();
+    expect(target.warn).toHaveBeenCalledWith('warn message', { component: 'http' });
+    expect(target.error).toHaveBeenCalledWith('error message', { component: 'http' });
+  });
+
+  it('should default to info level when a logger is provided', () => {
+    const target = createTarget();
+    const logger = createLogger({ logger: target, component: 'http' });
+
+    logger.debug('debug message');
+    logger.info('info message');
+
+    expect(target.debug).not.toHaveBeenCalled();
+    expect(target.info).toHaveBeenCalled();
+  });
+
+  it('should attach child context to every entry', () => {
+    const target = createTarget();
+    const logger = createLogger({ logger: target, component: 'http' }).child({ requestId: 'abc123' });
+
+    logger.info('Sending HTTP request', { status: 200 });
+
+    expect(target.info).toHaveBeenCalledWith('Sending HTTP request', {
+      component: 'http',
+      requestId: 'abc123',
+      status: 200
+    });
+  });
+
+  it('should never throw when the target logger fails', () => {
+    const target = createTarget();
+    target.error.mockImplementation(() => { throw new Error('broken transport'); });
+    const logger = createLogger({ logger: target, component: 'http' });
+
+    expect(() => logger.error('Request failed')).not.toThrow();
+  });
+});
+
+describe('redaction', () => {
+  it('should redact tokens, secrets, codes and PII by key', () => {
+    const redacted = redactFields({
+      access_token: 'secret-access',
+      refreshToken: 'secret-refresh',
+      client_secret: 'secret',
+      code: 'auth-code',
+      email: 'athlete@example.com',
+      first_name: 'Test',
+      profile: { last_name: 'Athlete', user_id: 12345 }
+    });
+
+    expect(redacted).toEqual({
+      access_token: '[REDACTED]',
+      refreshToken: '[REDACTED]',
+      client_secret: '[REDACTED]',
+      code: '[REDACTED]',
+      email: '[REDACTED]',
+      first_name: '[REDACTED]',
+      profile: { last_name: '[REDACTED]', user_id: 12345 }
+    });
+  });
+
+  it('should keep lengths and flags for sensitive keys', () => {
+    expect(redactFields({ accessTokenLength: 40, hasRefreshToken: true })).toEqual({
+      accessTokenLength: 40,
+      hasRefreshToken: true
+    });
+  });
+
+  it('should redact bearer tokens in header values', () => {
+    expect(redactFields({ headers: { Accept: 'application/json', 'X-Forwarded': 'Bearer abc.def' } })).toEqual({
+      headers: { Accept: 'application/json', 'X-Forwarded': 'Bearer [REDACTED]' }
+    });
+  });
+
+  it('should redact credentials in URLs', () => {
+    expect(redactString('http://localhost:8080/callback?code=abc123&state=xyz')).toBe(
+      'http://localhost:8080/callback?code=[REDACTED]&state=xyz'
+    );
+  });
+});
\ No newline at end of file
@@ -0,0 +1,90 @@
+/**
+ * Request Metrics Tests
+ * Tests for latency percentiles and per-route aggregation
+ */
+
+import { getResponseSize, LatencyRecorder, RequestMetricsCollector } from '../../src/utils/metrics';
+import type { PerformanceMetrics } from '../../src/types';
+
+function metrics(overrides: Partial<PerformanceMetrics> = {}): PerformanceMetrics {
+  return {
+    requestId: 'id',
+    method: 'GET',
+    url: 'https://api.prod.whoop.com/developer/v1/cycle/1',
+    route: '/developer/v1/cycle/:id',
+    success: true,
+    startTime: 0,
+    endTime: 100,
+    duration: 100,
+    cacheStatus: 'skip',
+    retryCount: 0,
+    errorCount: 0,
+    deduplicated: false,
+    rateLimitWaitMs: 0,
+    ...overrides
+  };
+}
+
+describe('LatencyRecorder', () => {
+  it('should interpolate percentiles within buckets', () => {
+    const recorder = new LatencyRecorder([100, 200]);
+    for (let i = 1; i <= 100; i++) {
+      recorder.observe(i * 2);
+    }
+
+    expect(recorder.getPercentiles()).toEqual({ p50: 100, p90: 180, p99: 198 });
+  });
+
+  it('should cap the overflow bucket at the slowest request', () => {
+    const recorder = new LatencyRecorder([10]);
+    recorder.observe(5);
+    recorder.observe(5000);
+
+    expect(recorder.percentile(0.99)).toBeLessThanOrEqual(5000);
+    expect(recorder.percentile(0.99)).toBeGreaterThan(10);
+  });
+
+  it('should expose cumulative histogram buckets', () => {
+    const recorder = new LatencyRecorder([10, 100]);
+    [5, 50, 500].forEach(duration => recorder.observe(duration));
+
+    expect(recorder.getHistogram()).toEqual({
+      buckets: [{ le: 10, count: 1 }, { le: 100, count: 2 }, { le: Infinity, count: 3 }],
+      count: 3,
+      sum: 555
+    });
+  });
+
+  it('should report zero without samples', () => {
+    expect(new LatencyRecorder().getPercentiles()).toEqual({ p50: 0, p90: 0, p99: 0 });
+  });
+});
+
+describe('RequestMetricsCollector', () => {
+  it('should aggregate totals and per-route statistics', () => {
+    const collector = new RequestMetricsCollector({ slowRequestThreshold: 150 });
+    collector.record(metrics());
+    collector.record(metrics({ duration: 300, success: false, retryCount: 2 }));
+    collector.record(metrics({ method: 'get', route: '/developer/v1/recovery' }));
+
+    expect(collector.getStats()).toMatchObject({
+      completedRequests: 3,
+      failedRequests: 1,
+      errorRate: 1 / 3,
+      retries: 2,
+      slowRequests: 1,
+      routes: {
+        'GET /developer/v1/cycle/:id': { requests: 2, failedRequests: 1, errorRate: 0.5, avgResponseTime: 200 },
+        'GET /developer/v1/recovery': { requests: 1, failedRequests: 0, errorRate: 0 }
+      }
+    });
+  });
+});
+
+describe('getResponseSize', () => {
+  it('should prefer Content-Length and fall back to the body', () => {
+    expect(getResponseSize('2048', {})).toBe(2048);
+    expect(getResponseSize(null, { name: 'é' })).toBe(13);
+    expect(getResponseSize(null, 'plain')).toBe(5);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,93 @@
+/**
+ * Prometheus Exporter Tests
+ * Tests for telemetry aggregation and text exposition output
+ */
+
+import { PROMETHEUS_CONTENT_TYPE, PrometheusExporter } from '../../src/utils/prometheus';
+import type { PerformanceMetrics } from '../../src/types';
+
+function metrics(overrides: Partial<PerformanceMetrics> = {}): PerformanceMetrics {
+  return {
+    requestId: 'id',
+    method: 'GET',
+    url: 'https://api.prod.whoop.com/developer/v1/cycle/1',
+    route: '/developer/v1/cycle/:id',
+    status: 200,
+    success: true,
+    startTime: 0,
+    endTime: 120,
+    duration: 120,
+    cacheStatus: 'miss',
+    retryCount: 0,
+    errorCount: 0,
+    deduplicated: false,
+    rateLimitWaitMs: 0,
+    ...overrides
+  };
+}
+
+describe('PrometheusExporter', () => {
+  it('should render request counters and duration histograms by route', () => {
+    const exporter = new PrometheusExporter({ buckets: [100, 500] });
+    exporter.recordRequest(metrics());
+    exporter.recordRequest(metrics({ status: 503, success: false, duration: 700, retryCount: 2 }));
+    exporter.recordRequest(metrics({ status: undefined, success: false, duration: 50 }));
+
+    const output = exporter.render();
+
+    expect(output).toContain('# TYPE whoop_sdk_requests_total counter');
+    expect(output).toContain('whoop_sdk_requests_total{method="GET",route="/developer/v1/cycle/:id",status="200"} 1');
+    expect(output).toContain('whoop_sdk_requests_total{method="GET",route="/developer/v1/cycle/:id",status="503"} 1');
+    expect(output).toContain('whoop_sdk_requests_total{method="GET",route="/developer/v1/cycle/:id",status="none"} 1');
+    expect(output).toContain('# TYPE whoop_sdk_request_duration_seconds histogram');
+    expect(output).toContain('whoop_sdk_request_duration_seconds_bucket{method="GET",route="/developer/v1/cycle/:id",le="0.1"} 1');
+    expect(output).toContain('whoop_sdk_request_duration_seconds_bucket{method="GET",route="/developer/v1/cycle/:id",le="0.5"} 2');
+    expect(output).toContain('whoop_sdk_request_duration_seconds_bucket{method="GET",route="/developer/v1/cycle/:id",le="+Inf"} 3');
+    expect(output).toContain('whoop_sdk_request_duration_seconds_sum{method="GET",route="/developer/v1/cycle/:id"} 0.87');
+    expect(output).toContain('whoop_sdk_request_duration_seconds_count{method="GET",route="/developer/v1/cycle/:id"} 3');
+    expect(output).toContain('whoop_sdk_retries_total{method="GET",route="/developer/v1/cycle/:id"} 2');
+    expect(output.endsWith('\n')).toBe(true);
+  });
+
+  it('should count token refreshes, cache hits, deduplication and rate-limit waits', () => {
+    const exporter = new PrometheusExporter({ prefix: 'app_whoop', labels: { service: 'backend' } });
+    exporter.recordRequest(metrics({ cacheStatus: 'hit' }));
+    exporter.recordRequest(metrics({ deduplicated: true, rateLimitWaitMs: 1500 }));
+    exporter.recordTokenRefresh('success');
+
+    const output = exporter.render();
+
+    expect(output).toContain('app_whoop_token_refreshes_total{service="backend",outcome="success"} 1');
+    expect(output).toContain('app_whoop_token_refreshes_total{service="backend",outcome="failure"} 0');
+    expect(output).toContain('app_whoop_cache_hits_total{service="backend"} 1');
+    expect(output).toContain('app_whoop_cache_misses_total{service="backend"} 1');
+    expect(output).toContain('app_whoop_deduplicated_requests_total{service="backend"} 1');
+    expect(output).toContain('app_whoop_rate_limit_waits_total{service="backend"} 1');
+    expect(output).toContain('app_whoop_rate_limit_wait_seconds_total{service="backend"} 1.5');
+  });
+
+  it('should escape label values', () => {
+    const exporter = new PrometheusExporter();
+    exporter.recordRequest(metrics({ route: '/a"b\\c' }));
+
+    expect(exporter.render()).toContain('route="/a\\"b\\\\c"');
+  });
+
+  it('should serve the metrics from a request handler', () => {
+    const exporter = new PrometheusExporter();
+    const res = { setHeader: jest.fn(), end: jest.fn() };
+
+    exporter.handler()({}, res);
+
+    expect(res.setHeader).toHaveBeenCalledWith('Content-Type', PROMETHEUS_CONTENT_TYPE);
+    expect(res.end).toHaveBeenCalledWith(exporter.render());
+  });
+
+  it('should reset all metrics', () => {
+    const exporter = new PrometheusExporter();
+    exporter.recordRequest(metrics());
+    exporter.reset();
+
+    expect(exporter.render()).not.toContain('whoop_sdk_requests_total{');
+  });
+});
\ No newline at end of file
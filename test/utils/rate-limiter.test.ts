@@ -0,0 +1,140 @@
+/**
+ * Rate Limiter Tests
+ * Tests for client-side quota enforcement
+ */
+
+import { WhoopRateLimiter } from '../../src/utils/rate-limiter';
+import { WhoopClientRateLimitError } from '../../src/errors';
+
+describe('WhoopRateLimiter', () => {
+  describe('App Budget', () => {
+    it('should allow requests within the per-minute budget', async () => {
+      const limiter = new WhoopRateLimiter({ app: { requestsPerMinute: 3 } });
+
+      for (let i = 0; i < 3; i++) {
+        await expect(limiter.acquire()).resolves.toBe(0);
+      }
+
+      expect(limiter.getStats().remaining.app.minute).toBe(0);
+    });
+
+    it('should queue requests until the oldest request leaves the window', async () => {
+      const limiter = new WhoopRateLimiter({ app: { requestsPerMinute: 2 } });
+      await limiter.acquire();
+      await jest.advanceTimersByTimeAsync(20000);
+      await limiter.acquire();
+
+      let waited: number | undefined;
+      const pending = limiter.acquire().then(ms => { waited = ms; });
+
+      await jest.advanceTimersByTimeAsync(39000);
+      expect(waited).toBeUndefined();
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await pending;
+      expect(waited).toBe(40000);
+
+      const stats = limiter.getStats();
+      expect(stats.queued).toBe(1);
+      expect(stats.totalWaitMs).toBe(40000);
+    });
+
+    it('should never allow more than the limit within any window', async () => {
+      const limiter = new WhoopRateLimiter({ app: { requestsPerMinute: 10 }, maxWaitMs: 5 * 60000 });
+      const sentAt: number[] = [];
+
+      const pending = Array.from({ length: 35 }, () => limiter.acquire().then(() => { sentAt.push(Date.now()); }));
+      await jest.advanceTimersByTimeAsync(4 * 60000);
+      await Promise.all(pending);
+
+      expect(sentAt).toHaveLength(35);
+      for (const start of sentAt) {
+        expect(sentAt.filter(time => time >= start && time < start + 60000).length).toBeLessThanOrEqual(10);
+      }
+    });
+
+    it('should reject immediately with the reject strategy', async () => {
+      const limiter = new WhoopRateLimiter({ app: { requestsPerMinute: 1 }, strategy: 'reject' });
+      await limiter.acquire();
+
+      const error = await limiter.acquire().catch(e => e);
+
+      expect(error).toBeInstanceOf(WhoopClientRateLimitError);
+      expect(error.scope).toBe('app');
+      expect(error.window).toBe('minute');
+      expect(error.retryAfterMs).toBe(60000);
+      expect(limiter.getStats().rejected).toBe(1);
+    });
+
+    it('should reject queued requests that would wait longer than maxWaitMs', async () => {
+      const limiter = new WhoopRateLimiter({
+        app: { requestsPerMinute: 100, requestsPerDay: 1 },
+        maxWaitMs: 60000
+      });
+      await limiter.acquire();
+
+      await expect(limiter.acquire()).rejects.toMatchObject({
+        code: 'CLIENT_RATE_LIMIT_ERROR',
+        window: 'day'
+      });
+    });
+
+    it('should stop waiting when the signal aborts', async () => {
+      const limiter = new WhoopRateLimiter({ app: { requestsPerMinute: 1 } });
+      await limiter.acquire();
+
+      const controller = new AbortController();
+      const pending = limiter.acquire(undefined, controller.signal);
+      controller.abort();
+
+      await expect(pending).rejects.toThrow('Request aborted');
+    });
+  });
+
+  describe('User Budget', () => {
+    it('should track each user separately', async () => {
+      const limiter = new WhoopRateLimiter({
+        user: { requestsPerMinute: 1 },
+        strategy: 'reject'
+      });
+
+      await limiter.acquire('Bearer user-a');
+      await expect(limiter.acquire('Bearer user-b')).resolves.toBe(0);
+      await expect(limiter.acquire('Bearer user-a')).rejects.toMatchObject({ scope: 'user' });
+
+      expect(limiter.getRemaining('Bearer user-b')).toEqual({
+        app: { minute: 98, day: 9998 },
+        user: { minute: 0 }
+      });
+    });
+
+    it('should not limit users without a configured budget', async () => {
+      const limiter = new WhoopRateLimiter({ app: { requestsPerMinute: 5 } });
+
+      await limiter.acquire('Bearer user-a');
+
+      expect(limiter.getStats('Bearer user-a').remaining.user).toBeUndefined();
+      expect(limiter.getStats().trackedUsers).toBe(0);
+    });
+
+    it('should report a full budget for unknown users without tracking them', () => {
+      const limiter = new WhoopRateLimiter({ user: { requestsPerMinute: 5 } });
+
+      expect(limiter.getRemaining('Bearer user-a').user).toEqual({ minute: 5 });
+      expect(limiter.getStats().trackedUsers).toBe(0);
+    });
+  });
+
+  it('should restore full budgets on reset', async () => {
+    const limiter = new WhoopRateLimiter({ app: { requestsPerMinute: 1 }, user: { requestsPerDay: 1 } });
+    await limiter.acquire('Bearer user-a');
+
+    limiter.reset();
+
+    expect(limiter.getRemaining('Bearer user-a')).toEqual({
+      app: { minute: 1 },
+      user: { day: 1 }
+    });
+    expect(limiter.getStats().acquired).toBe(0);
+  });
+});
\ No newline at end of file
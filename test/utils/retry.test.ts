@@ -0,0 +1,121 @@
+/**
+ * Retry Utility Tests
+ * Tests for retry policies and backoff delays
+ */
+
+import { calculateRetryDelay, isRetryableError, withRetry } from '../../src/utils/retry';
+import { WhoopAbortError, WhoopAPIError, WhoopNetworkError, WhoopValidationError } from '../../src/errors';
+
+describe('withRetry', () => {
+  const serverError = () => new WhoopAPIError(503, 'UNAVAILABLE', 'Service unavailable');
+
+  it('should pass the attempt number and retry up to maxRetries', async () => {
+    const fn = jest.fn()
+      .mockRejectedValueOnce(serverError())
+      .mockRejectedValueOnce(serverError())
+      .mockResolvedValue('ok');
+
+    const pending = withRetry(fn, { maxRetries: 2, baseDelayMs: 100, jitter: 'none' });
+    await jest.advanceTimersByTimeAsync(300);
+
+    await expect(pending).resolves.toBe('ok');
+    expect(fn.mock.calls.map(call => call[0])).toEqual([1, 2, 3]);
+  });
+
+  it('should only retry configured statuses', async () => {
+    const fn = jest.fn().mockRejectedValue(new WhoopValidationError('Bad Request'));
+
+    await expect(withRetry(fn, { maxRetries: 3 })).rejects.toBeInstanceOf(WhoopValidationError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should call onRetry with the chosen delay', async () => {
+    const onRetry = jest.fn();
+    const error = serverError();
+    const fn = jest.fn().mockRejectedValueOnce(error).mockResolvedValue('ok');
+
+    const pending = withRetry(fn, { baseDelayMs: 250, jitter: 'none', onRetry });
+    await jest.advanceTimersByTimeAsync(250);
+    await pending;
+
+    expect(onRetry).toHaveBeenCalledWith({ attempt: 1, error, delayMs: 250, elapsedMs: 0 });
+  });
+
+  it('should stop once the total time budget would be exceeded', async () => {
+    const fn = jest.fn().mockRejectedValue(serverError());
+
+    const pending = withRetry(fn, {
+      maxRetries: 5,
+      baseDelayMs: 1000,
+      jitter: 'none',
+      maxElapsedMs: 2500
+    }).catch(e => e);
+    await jest.advanceTimersByTimeAsync(3000);
+
+    // Waits 1000ms then would need 2000ms more, which exceeds the budget
+    expect(await pending).toBeInstanceOf(WhoopAPIError);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop a pending backoff sleep when cancelled', async () => {
+    const controller = new AbortController();
+    const fn = jest.fn().mockRejectedValue(serverError());
+
+    const pending = withRetry(fn, { maxRetries: 5, baseDelayMs: 10000, signal: controller.signal }).catch(e => e);
+    await jest.advanceTimersByTimeAsync(0);
+    controller.abort('user navigated away');
+
+    const error = await pending;
+    expect(error).toBeInstanceOf(WhoopAbortError);
+    expect(error.reason).toBe('user navigated away');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry an attempt that failed because of cancellation', async () => {
+    const controller = new AbortController();
+    const fn = jest.fn().mockImplementation(async () => {
+      controller.abort();
+      throw new WhoopNetworkError('socket closed');
+    });
+
+    await expect(withRetry(fn, { maxRetries: 3, signal: controller.signal })).rejects.toBeInstanceOf(WhoopAbortError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('isRetryableError', () => {
+  class CustomTransientError extends Error {}
+
+  it('should retry network errors and listed statuses by default', () => {
+    expect(isRetryableError(new WhoopNetworkError('reset'))).toBe(true);
+    expect(isRetryableError(new WhoopAPIError(502, 'BAD_GATEWAY', 'Bad gateway'))).toBe(true);
+    expect(isRetryableError(new WhoopAPIError(501, 'NOT_IMPLEMENTED', 'Not implemented'))).toBe(false);
+  });
+
+  it('should honor custom statuses and error classes', () => {
+    const policy = { retryOnStatus: [409], retryOn: [CustomTransientError] };
+
+    expect(isRetryableError(new WhoopAPIError(409, 'CONFLICT', 'Conflict'), policy)).toBe(true);
+    expect(isRetryableError(new CustomTransientError(), policy)).toBe(true);
+    expect(isRetryableError(new WhoopNetworkError('reset'), policy)).toBe(false);
+  });
+});
+
+describe('calculateRetryDelay', () => {
+  afterEach(() => {
+    jest.spyOn(Math, 'random').mockRestore();
+  });
+
+  it('should grow exponentially up to the cap', () => {
+    const policy = { baseDelayMs: 1000, maxDelayMs: 5000, jitter: 'none' as const };
+
+    expect([1, 2, 3, 4].map(attempt => calculateRetryDelay(attempt, policy))).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it('should apply full and decorrelated jitter', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    expect(calculateRetryDelay(3, { baseDelayMs: 1000, jitter: 'full' })).toBe(2000);
+    expect(calculateRetryDelay(2, { baseDelayMs: 1000, jitter: 'decorrelated' }, 2000)).toBe(3500);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,60 @@
+/**
+ * Response Schema Tests
+ * Tests for runtime response validation
+ */
+
+import { schema, validateResponse } from '../../src/utils/schema';
+import { paginatedCycleSchema } from '../../src/endpoints/schemas';
+
+const cycle = {
+  id: 93845,
+  user_id: 10129,
+  created_at: '2024-01-15T06:00:00.000Z',
+  updated_at: '2024-01-16T06:00:00.000Z',
+  start: '2024-01-15T06:00:00.000Z',
+  end: null,
+  timezone_offset: '-05:00',
+  score_state: 'SCORED',
+  score: { strain: 5.29, kilojoule: 8288.3, average_heart_rate: 68, max_heart_rate: 141 }
+};
+
+describe('Response Schemas', () => {
+  it('should accept a matching response', () => {
+    expect(validateResponse({ records: [cycle], next_token: null }, paginatedCycleSchema)).toEqual([]);
+  });
+
+  it('should list the path of every mismatch', () => {
+    const drifted = {
+      ...cycle,
+      id: '93845',
+      score_state: 'DONE',
+      score: { ...cycle.score, strain: null }
+    };
+
+    expect(validateResponse({ records: [drifted] }, paginatedCycleSchema)).toEqual([
+      { path: 'records[0].id', message: 'expected number, received string' },
+      { path: 'records[0].score_state', message: 'expected one of SCORED, PENDING_SCORE, UNSCORABLE, received "DONE"' },
+      { path: 'records[0].score.strain', message: 'expected number, received null' }
+    ]);
+  });
+
+  it('should treat null and missing optional fields alike', () => {
+    const check = schema.object<{ end?: string }>({ end: schema.optional(schema.string()) });
+
+    expect(validateResponse({ end: null }, check)).toEqual([]);
+    expect(validateResponse({}, check)).toEqual([]);
+    expect(validateResponse({ end: 5 }, check)).toHaveLength(1);
+  });
+
+  it('should allow unknown fields', () => {
+    const check = schema.object<{ id: number }>({ id: schema.number() });
+
+    expect(validateResponse({ id: 1, added_later: true }, check)).toEqual([]);
+  });
+
+  it('should report a non-object root', () => {
+    expect(validateResponse('<html>', paginatedCycleSchema)).toEqual([
+      { path: '(root)', message: 'expected object, received string' }
+    ]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,78 @@
+/**
+ * Tracing Tests
+ * Tests for fault-tolerant spans and trace header propagation
+ */
+
+import { SDKTracer } from '../../src/utils/tracing';
+import type { WhoopSpan } from '../../src/types';
+
+function createSpan(): jest.Mocked<WhoopSpan> {
+  return {
+    setAttribute: jest.fn(),
+    addEvent: jest.fn(),
+    recordException: jest.fn(),
+    setStatus: jest.fn(),
+    end: jest.fn(),
+    spanContext: jest.fn(() => ({ traceId: 'a'.repeat(32), spanId: 'b'.repeat(16), traceFlags: 1 }))
+  };
+}
+
+describe('SDKTracer', () => {
+  it('should start client spans without undefined attributes', () => {
+    const span = createSpan();
+    const tracer = { startSpan: jest.fn(() => span) };
+
+    new SDKTracer({ tracer }).startSpan('WHOOP GET /v1/cycle', { 'url.full': 'https://x', missing: undefined });
+
+    expect(tracer.startSpan).toHaveBeenCalledWith('WHOOP GET /v1/cycle', {
+      kind: 2,
+      attributes: { 'url.full': 'https://x' }
+    });
+  });
+
+  it('should inject a W3C traceparent header', () => {
+    const tracer = new SDKTracer({ tracer: { startSpan: () => createSpan() } });
+    const headers: Record<string, string> = {};
+
+    tracer.inject(tracer.startSpan('span'), headers);
+
+    expect(headers).toEqual({ traceparent: `00-${'a'.repeat(32)}-${'b'.repeat(16)}-01` });
+  });
+
+  it('should support custom or disabled propagation', () => {
+    const propagate = jest.fn((_span: WhoopSpan, headers: Record<string, string>) => {
+      headers['x-trace'] = 'custom';
+    });
+    const custom = new SDKTracer({ tracer: { startSpan: () => createSpan() }, propagate });
+    const disabled = new SDKTracer({ tracer: { startSpan: () => createSpan() }, propagate: false });
+    const customHeaders: Record<string, string> = {};
+    const disabledHeaders: Record<string, string> = {};
+
+    custom.inject(custom.startSpan('span'), customHeaders);
+    disabled.inject(disabled.startSpan('span'), disabledHeaders);
+
+    expect(customHeaders).toEqual({ 'x-trace': 'custom' });
+    expect(disabledHeaders).toEqual({});
+  });
+
+  it('should contain tracer failures', () => {
+    const span = createSpan();
+    span.addEvent.mockImplementation(() => {
+      throw new Error('exporter down');
+    });
+    const failing = new SDKTracer({ tracer: { startSpan: () => { throw new Error('no tracer'); } } });
+
+    expect(() => new SDKTracer({ tracer: { startSpan: () => span } }).startSpan('span').addEvent('retry')).not.toThrow();
+    expect(() => failing.startSpan('span').end()).not.toThrow();
+  });
+
+  it('should do nothing when tracing is not configured', () => {
+    const tracer = new SDKTracer();
+    const headers: Record<string, string> = {};
+
+    tracer.inject(tracer.startSpan('span'), headers);
+
+    expect(tracer.enabled).toBe(false);
+    expect(headers).toEqual({});
+  });
+});
\ No newline at end of file